@@ -0,0 +1,322 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox, DetectionResult } from '../types';
+import { labelColor } from '../utils/overlay';
+import {
+  RESIZE_HANDLES,
+  ResizeHandle,
+  boxFromPoints,
+  createAnnotation,
+  isTooSmall,
+  markEdited,
+  moveBox,
+  resizeBox,
+  sameBox,
+} from '../utils/annotations';
+
+const NUDGE = 0.005;
+const NUDGE_LARGE = 0.02;
+
+const HANDLE_POSITIONS: Record<ResizeHandle, { left: string; top: string; cursor: string }> = {
+  nw: { left: '0%', top: '0%', cursor: 'nwse-resize' },
+  n: { left: '50%', top: '0%', cursor: 'ns-resize' },
+  ne: { left: '100%', top: '0%', cursor: 'nesw-resize' },
+  e: { left: '100%', top: '50%', cursor: 'ew-resize' },
+  se: { left: '100%', top: '100%', cursor: 'nwse-resize' },
+  s: { left: '50%', top: '100%', cursor: 'ns-resize' },
+  sw: { left: '0%', top: '100%', cursor: 'nesw-resize' },
+  w: { left: '0%', top: '50%', cursor: 'ew-resize' },
+};
+
+type Drag =
+  | { kind: 'move'; index: number; startX: number; startY: number; origin: BoundingBox }
+  | { kind: 'resize'; index: number; handle: ResizeHandle; origin: BoundingBox }
+  | { kind: 'draw'; startX: number; startY: number };
+
+// Box a drag would produce if released at (x, y)
+const dragBox = (drag: Drag, x: number, y: number): BoundingBox => {
+  if (drag.kind === 'move') return moveBox(drag.origin, x - drag.startX, y - drag.startY);
+  if (drag.kind === 'resize') return resizeBox(drag.origin, drag.handle, x, y);
+  return boxFromPoints(drag.startX, drag.startY, x, y);
+};
+
+const boxStyle = (box: BoundingBox) => ({
+  left: `${box.xmin * 100}%`,
+  top: `${box.ymin * 100}%`,
+  width: `${(box.xmax - box.xmin) * 100}%`,
+  height: `${(box.ymax - box.ymin) * 100}%`,
+});
+
+// Shortcuts must not fire while the user is typing a label
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+interface AnnotationLayerProps {
+  detections: DetectionResult[];
+  selected: number | null;
+  onSelect: (index: number | null) => void;
+  onCommit: (next: DetectionResult[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Label given to newly drawn boxes
+  drawLabel: string;
+}
+
+/**
+ * Editable overlay for the image view. Dragging a box moves it, dragging a handle
+ * resizes it and dragging on empty space draws a new box. Only the final position of
+ * a drag is committed, so each gesture is a single undo step.
+ */
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  detections,
+  selected,
+  onSelect,
+  onCommit,
+  onUndo,
+  onRedo,
+  drawLabel,
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [preview, setPreview] = useState<{ index: number | null; box: BoundingBox } | null>(null);
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, drag: Drag) => {
+    e.preventDefault();
+    e.stopPropagation();
+    layerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = drag;
+    setPreview(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = toPoint(e);
+    setPreview({ index: drag.kind === 'draw' ? null : drag.index, box: dragBox(drag, x, y) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setPreview(null);
+    if (!drag) return;
+    const { x, y } = toPoint(e);
+    const box = dragBox(drag, x, y);
+    if (drag.kind === 'draw') {
+      if (isTooSmall(box)) {
+        // A click on empty space only clears the selection
+        onSelect(null);
+        return;
+      }
+      onCommit([...detections, createAnnotation(box, drawLabel)]);
+      onSelect(detections.length);
+      return;
+    }
+    if (sameBox(box, drag.origin) || isTooSmall(box)) return;
+    onCommit(detections.map((det, i) => (i === drag.index ? markEdited(det, { box }) : det)));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target)) return;
+      const mod = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+      if (mod && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) onRedo();
+        else onUndo();
+        return;
+      }
+      if (mod && key === 'y') {
+        e.preventDefault();
+        onRedo();
+        return;
+      }
+      if (e.key === 'Escape') {
+        onSelect(null);
+        return;
+      }
+      if (selected === null) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        onCommit(detections.filter((_, i) => i !== selected));
+        onSelect(null);
+        return;
+      }
+      const step = e.shiftKey ? NUDGE_LARGE : NUDGE;
+      const offsets: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step],
+      };
+      const offset = offsets[e.key];
+      if (!offset) return;
+      e.preventDefault();
+      const det = detections[selected];
+      onCommit(detections.map((d, i) => (i === selected ? markEdited(det, { box: moveBox(det.box, offset[0], offset[1]) }) : d)));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [detections, selected, onSelect, onCommit, onUndo, onRedo]);
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0 cursor-crosshair touch-none select-none"
+      onPointerDown={(e) => {
+        const { x, y } = toPoint(e);
+        startDrag(e, { kind: 'draw', startX: x, startY: y });
+      }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        dragRef.current = null;
+        setPreview(null);
+      }}
+    >
+      {detections.map((det, i) => {
+        const box = preview && preview.index === i ? preview.box : det.box;
+        const isSelected = i === selected;
+        const color = labelColor(det.label);
+        return (
+          <div
+            key={i}
+            className={`absolute border-2 box-border cursor-move ${det.edited ? 'border-dashed' : ''} ${isSelected ? 'z-10' : ''}`}
+            style={{
+              ...boxStyle(box),
+              borderColor: color,
+              backgroundColor: labelColor(det.label, isSelected ? 0.25 : 0.1),
+            }}
+            onPointerDown={(e) => {
+              onSelect(i);
+              const { x, y } = toPoint(e);
+              startDrag(e, { kind: 'move', index: i, startX: x, startY: y, origin: det.box });
+            }}
+          >
+            <div
+              className="absolute -top-6 left-[-2px] px-2 py-0.5 rounded text-[11px] font-bold text-white whitespace-nowrap pointer-events-none"
+              style={{ backgroundColor: color }}
+            >
+              {det.label} {det.edited ? <span className="opacity-80 font-normal">edited</span> : <span className="opacity-80 font-normal">{(det.score * 100).toFixed(1)}%</span>}
+            </div>
+            {isSelected &&
+              RESIZE_HANDLES.map((handle) => (
+                <div
+                  key={handle}
+                  className="absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-white border-2 rounded-sm"
+                  style={{ ...HANDLE_POSITIONS[handle], borderColor: color }}
+                  onPointerDown={(e) => startDrag(e, { kind: 'resize', index: i, handle, origin: det.box })}
+                />
+              ))}
+          </div>
+        );
+      })}
+
+      {preview && preview.index === null && (
+        <div className="absolute border-2 border-dashed border-white box-border pointer-events-none" style={boxStyle(preview.box)} />
+      )}
+    </div>
+  );
+};
+
+// Uncontrolled until committed, so typing does not create an undo step per keystroke
+const LabelInput: React.FC<{ label: string; suggestions: string[]; onCommit: (label: string) => void }> = ({
+  label,
+  suggestions,
+  onCommit,
+}) => {
+  const [text, setText] = useState(label);
+  const commit = () => {
+    const next = text.trim();
+    if (next && next !== label) onCommit(next);
+    else setText(label);
+  };
+  return (
+    <>
+      <input
+        list="annotation-labels"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setText(label);
+        }}
+        className="w-48 px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm focus:outline-none focus:border-indigo-500"
+      />
+      <datalist id="annotation-labels">
+        {suggestions.map((s) => <option key={s} value={s} />)}
+      </datalist>
+    </>
+  );
+};
+
+interface AnnotationToolbarProps {
+  selected: DetectionResult | null;
+  selectedIndex: number | null;
+  labels: string[];
+  editedCount: number;
+  total: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onRelabel: (label: string) => void;
+  onDelete: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDiscard: () => void;
+  onDone: () => void;
+}
+
+export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+  selected,
+  selectedIndex,
+  labels,
+  editedCount,
+  total,
+  canUndo,
+  canRedo,
+  onRelabel,
+  onDelete,
+  onUndo,
+  onRedo,
+  onDiscard,
+  onDone,
+}) => {
+  const buttonClass = 'px-3 py-1.5 rounded-lg bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-slate-600';
+
+  return (
+    <div className="mt-4 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {selected ? (
+            <>
+              <span className="text-sm text-slate-400">Label</span>
+              <LabelInput key={selectedIndex} label={selected.label} suggestions={labels} onCommit={onRelabel} />
+              <button onClick={onDelete} className={`${buttonClass} text-red-300`}>Delete</button>
+            </>
+          ) : (
+            <span className="text-sm text-slate-500">Drag on the image to draw a box, or click a box to select it.</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title="Ctrl+Z">Undo</button>
+          <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title="Ctrl+Shift+Z / Ctrl+Y">Redo</button>
+          <button onClick={onDiscard} disabled={editedCount === 0 && !canUndo} className={buttonClass}>Discard edits</button>
+          <button onClick={onDone} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-500 transition-colors">Done</button>
+        </div>
+      </div>
+      <p className="mt-3 text-xs text-slate-500">
+        {editedCount} of {total} boxes edited · Delete removes the selected box · arrows nudge it (Shift for larger steps) · Esc deselects.
+        Filter changes do not apply to edited boxes until the edits are discarded.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useRef } from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { BatchProcessor } from '../hooks/useBatchProcessor';
+import { BatchSummary } from './BatchSummary';
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-700 text-slate-300',
+  processing: 'bg-indigo-600 text-white animate-pulse',
+  done: 'bg-emerald-600 text-white',
+  error: 'bg-red-600 text-white',
+  cancelled: 'bg-slate-600 text-slate-300',
+};
+
+interface BatchPanelProps {
+  batch: BatchProcessor;
+  // Items as displayed, i.e. with the current filters applied to their detections
+  items: BatchItem[];
+  onOpen: (item: BatchItem) => void;
+  disabled?: boolean;
+}
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ batch, items, onOpen, disabled }) => {
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const { state } = batch;
+
+  const finished = items.filter((i) => i.status === 'done' || i.status === 'error' || i.status === 'cancelled').length;
+  const failed = items.filter((i) => i.status === 'error').length;
+  const percent = items.length > 0 ? (finished / items.length) * 100 : 0;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) batch.addFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const buttonClass = 'px-4 py-2 rounded-xl bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-slate-600';
+
+  return (
+    <div className="w-full self-stretch p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button onClick={() => filesInputRef.current?.click()} disabled={disabled} className={buttonClass}>Add images</button>
+          <button onClick={() => folderInputRef.current?.click()} disabled={disabled} className={buttonClass}>Add folder</button>
+          <input ref={filesInputRef} type="file" className="hidden" accept="image/*" multiple onChange={handleFiles} />
+          <input ref={folderInputRef} type="file" className="hidden" multiple onChange={handleFiles} {...{ webkitdirectory: '' }} />
+          <label className="flex items-center gap-2 text-sm text-slate-400 ml-2">
+            Parallel
+            <select
+              value={batch.concurrency}
+              onChange={(e) => batch.setConcurrency(Number(e.target.value))}
+              className="px-2 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm"
+            >
+              {CONCURRENCY_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {state === 'paused' ? (
+            <button onClick={batch.resume} className={buttonClass}>Resume</button>
+          ) : (
+            <button onClick={batch.pause} disabled={state !== 'running'} className={buttonClass}>Pause</button>
+          )}
+          <button onClick={batch.cancel} disabled={state !== 'running' && state !== 'paused'} className={buttonClass}>Cancel</button>
+          {failed > 0 && state === 'done' && (
+            <button onClick={batch.retry} disabled={disabled} className={buttonClass}>Retry failed</button>
+          )}
+          <button onClick={batch.clear} disabled={items.length === 0} className={buttonClass}>Clear</button>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="mt-4">
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+            <span>{finished} / {items.length} processed{failed > 0 && <span className="text-red-400"> · {failed} failed</span>}</span>
+            <span className="capitalize">{state}</span>
+          </div>
+          <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-slate-500 text-center p-10">Add images or a whole folder to analyze them in one go.</p>
+      ) : (
+        <div className="mt-4 grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3 max-h-[50vh] overflow-y-auto pr-1">
+          {items.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => onOpen(item)}
+              disabled={item.status !== 'done'}
+              title={item.error ? `${item.name}: ${item.error}` : item.name}
+              className="relative aspect-square rounded-lg overflow-hidden border border-slate-700 bg-slate-800 hover:border-indigo-500 transition-colors disabled:cursor-default"
+            >
+              <img src={item.src} alt={item.name} className="w-full h-full object-cover" loading="lazy" />
+              <span className={`absolute top-1 right-1 px-1.5 py-0.5 rounded text-[10px] font-bold ${STATUS_STYLES[item.status]}`}>
+                {item.status === 'done' ? item.detections.length : item.status}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <BatchSummary items={items} onOpen={onOpen} />
+    </div>
+  );
+};
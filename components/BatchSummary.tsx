@@ -0,0 +1,71 @@
+import React from 'react';
+import { BatchItem } from '../types';
+import { summarizeBatch, SCORE_BINS } from '../utils/batchStats';
+import { labelColor } from '../utils/overlay';
+
+interface BatchSummaryProps {
+  items: BatchItem[];
+  onOpen: (item: BatchItem) => void;
+}
+
+export const BatchSummary: React.FC<BatchSummaryProps> = ({ items, onOpen }) => {
+  const summary = summarizeBatch(items);
+  if (summary.processed === 0 && summary.failed === 0) return null;
+
+  const maxLabel = summary.labelCounts[0]?.count ?? 1;
+  const maxBin = Math.max(1, ...summary.scoreHistogram);
+
+  return (
+    <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="bg-slate-700/30 border border-slate-700 rounded-lg p-4">
+        <h4 className="text-sm font-semibold text-slate-200 mb-3">
+          Detections per label <span className="text-slate-500 font-normal">({summary.totalDetections} total)</span>
+        </h4>
+        <div className="space-y-1.5 max-h-56 overflow-y-auto pr-1">
+          {summary.labelCounts.map(({ label, count }) => (
+            <div key={label} className="flex items-center gap-2 text-xs">
+              <span className="w-24 truncate capitalize text-slate-300" title={label}>{label}</span>
+              <div className="flex-1 h-2 rounded bg-slate-800">
+                <div className="h-2 rounded" style={{ width: `${(count / maxLabel) * 100}%`, backgroundColor: labelColor(label) }} />
+              </div>
+              <span className="w-8 text-right font-mono text-slate-400">{count}</span>
+            </div>
+          ))}
+          {summary.labelCounts.length === 0 && <p className="text-xs text-slate-500">No detections yet.</p>}
+        </div>
+      </div>
+
+      <div className="bg-slate-700/30 border border-slate-700 rounded-lg p-4">
+        <h4 className="text-sm font-semibold text-slate-200 mb-3">Score distribution</h4>
+        <div className="flex items-end gap-1 h-32">
+          {summary.scoreHistogram.map((count, i) => (
+            <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" title={`${(i / SCORE_BINS).toFixed(1)}–${((i + 1) / SCORE_BINS).toFixed(1)}: ${count}`}>
+              <div className="w-full rounded-t bg-indigo-500/70" style={{ height: `${(count / maxBin) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] font-mono text-slate-500 mt-1">
+          <span>0</span>
+          <span>0.5</span>
+          <span>1</span>
+        </div>
+      </div>
+
+      <div className="bg-slate-700/30 border border-slate-700 rounded-lg p-4">
+        <h4 className="text-sm font-semibold text-slate-200 mb-3">
+          No detections <span className="text-slate-500 font-normal">({summary.emptyItems.length})</span>
+          {summary.failed > 0 && <span className="ml-2 text-red-400 font-normal">{summary.failed} failed</span>}
+        </h4>
+        <ul className="space-y-1 max-h-56 overflow-y-auto pr-1">
+          {summary.emptyItems.map((item) => (
+            <li key={item.id}>
+              <button onClick={() => onOpen(item)} className="text-xs text-slate-300 hover:text-indigo-300 truncate max-w-full text-left">
+                {item.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useRef, useState } from 'react';
+import { ModelEntry, RuntimeSettings } from '../types';
+import { ModelSelector } from './ModelSelector';
+import { RuntimeSelector } from './RuntimeSelector';
+import { ErrorNotice } from './ErrorNotice';
+import { Benchmark } from '../hooks/useBenchmark';
+import { BenchmarkRun, BenchmarkStage, DEFAULT_ITERATIONS, DEFAULT_WARMUP, STAGE_LABELS, benchmarksToJson, formatMs } from '../utils/benchmark';
+import { describeRuntime } from '../utils/runtime';
+import { formatBytes } from '../utils/modelCache';
+import { isImageFile } from '../utils/imageInput';
+import { downloadText } from '../utils/download';
+
+interface BenchmarkPanelProps {
+  benchmark: Benchmark;
+  // The viewer's model and runtime, used as the starting point
+  model: ModelEntry;
+  runtime: RuntimeSettings;
+  webGpuAvailable: boolean | null;
+  // The input size limit from the viewer, which benchmarks apply as well
+  maxSide: number;
+}
+
+const PHASE_LABELS = {
+  loading: 'Loading model',
+  warmup: 'Warming up',
+  measuring: 'Measuring',
+};
+
+const STAGES: BenchmarkStage[] = ['preprocess', 'inference', 'postprocess', 'total'];
+
+const numberClass = 'w-16 px-2 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm font-mono disabled:opacity-50';
+const buttonClass = 'px-3 py-1.5 rounded-lg bg-slate-700/50 text-slate-200 text-sm border border-slate-600 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed';
+
+interface MetricRow {
+  label: string;
+  value: (run: BenchmarkRun) => number | null;
+  format: (value: number) => string;
+  // Whether a lower value is better; rows without a direction are not highlighted
+  lowerIsBetter?: boolean;
+}
+
+const ROWS: MetricRow[] = [
+  { label: 'Model load', value: (run) => run.loadMs, format: formatMs, lowerIsBetter: true },
+  { label: 'First inference', value: (run) => run.firstInferenceMs, format: formatMs, lowerIsBetter: true },
+  ...STAGES.flatMap((stage): MetricRow[] => [
+    { label: `${STAGE_LABELS[stage]} p50`, value: (run) => run.latency[stage].p50, format: formatMs, lowerIsBetter: true },
+    { label: `${STAGE_LABELS[stage]} p95`, value: (run) => run.latency[stage].p95, format: formatMs, lowerIsBetter: true },
+  ]),
+  { label: 'Peak JS heap', value: (run) => run.peakHeapBytes, format: formatBytes },
+  { label: 'Detections / image', value: (run) => run.detectionsPerImage, format: (value) => value.toFixed(1) },
+];
+
+/**
+ * Times a model and runtime over a fixed set of images and keeps the results, one column
+ * per run, so setups can be compared side by side.
+ */
+export const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ benchmark, model: viewerModel, runtime: viewerRuntime, webGpuAvailable, maxSide }) => {
+  const [model, setModel] = useState(viewerModel);
+  const [runtime, setRuntime] = useState(viewerRuntime);
+  const [warmup, setWarmup] = useState(DEFAULT_WARMUP);
+  const [iterations, setIterations] = useState(DEFAULT_ITERATIONS);
+  const [imageSet, setImageSet] = useState<BenchmarkRun['imageSet']>('sample');
+  const [files, setFiles] = useState<File[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { runs, progress, running, error } = benchmark;
+
+  const canStart = !running && iterations > 0 && (imageSet === 'sample' || files.length > 0);
+  const start = () => benchmark.start({ model, runtime, warmup, iterations, imageSet, files });
+
+  const best = (row: MetricRow) => {
+    if (!row.lowerIsBetter || runs.length < 2) return null;
+    const values = runs.map(row.value).filter((value): value is number => value !== null);
+    return values.length > 0 ? Math.min(...values) : null;
+  };
+
+  return (
+    <div className="mt-6 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">Benchmark</h3>
+          <p className="text-xs text-slate-500">
+            Runs in a separate worker, so the viewer keeps its model. Uses the current filters{maxSide ? ` and the ${maxSide} px size limit` : ''}.
+          </p>
+        </div>
+        {runs.length > 0 && (
+          <div className="flex gap-2">
+            <button onClick={() => downloadText(benchmarksToJson(runs), 'benchmarks.json', 'application/json')} className={buttonClass}>Export JSON</button>
+            <button onClick={benchmark.clear} disabled={running} className={buttonClass}>Clear</button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <ModelSelector model={model} onChange={setModel} disabled={running} />
+        <RuntimeSelector runtime={runtime} onChange={setRuntime} webGpuAvailable={webGpuAvailable} disabled={running} />
+        <label className="flex items-center gap-2 text-sm text-slate-400">
+          Warm-up
+          <input type="number" min={0} max={50} value={warmup} disabled={running} onChange={(e) => setWarmup(Math.max(0, Math.floor(Number(e.target.value) || 0)))} className={numberClass} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-400">
+          Measured
+          <input type="number" min={1} max={500} value={iterations} disabled={running} onChange={(e) => setIterations(Math.max(1, Math.floor(Number(e.target.value) || 1)))} className={numberClass} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+        <label className="flex items-center gap-2 text-slate-300">
+          <input type="radio" checked={imageSet === 'sample'} disabled={running} onChange={() => setImageSet('sample')} className="accent-indigo-500" />
+          Sample image
+        </label>
+        <label className="flex items-center gap-2 text-slate-300">
+          <input type="radio" checked={imageSet === 'custom'} disabled={running} onChange={() => setImageSet('custom')} className="accent-indigo-500" />
+          My images
+        </label>
+        {imageSet === 'custom' && (
+          <>
+            <button onClick={() => inputRef.current?.click()} disabled={running} className={buttonClass}>Choose images</button>
+            <span className="text-xs text-slate-500">{files.length === 0 ? 'None chosen' : `${files.length} ${files.length === 1 ? 'image' : 'images'}`}</span>
+          </>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            setFiles(Array.from(e.target.files ?? []).filter(isImageFile));
+            e.target.value = '';
+          }}
+        />
+        <div className="flex items-center gap-2 ml-auto">
+          {progress && (
+            <span className="text-xs font-mono text-slate-400">
+              {PHASE_LABELS[progress.phase]}{progress.total > 0 ? ` ${progress.done + 1}/${progress.total}` : '…'}
+            </span>
+          )}
+          {running ? (
+            <button onClick={benchmark.cancel} className={buttonClass}>Cancel</button>
+          ) : (
+            <button
+              onClick={start}
+              disabled={!canStart}
+              className="px-4 py-1.5 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Run benchmark
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <ErrorNotice error={error} actions={['retry']} onAction={start} onDismiss={benchmark.dismissError} className="mt-4" />
+      )}
+
+      {runs.length > 0 ? (
+        <div className="mt-4 overflow-x-auto">
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-slate-900 text-left font-normal text-slate-500 pr-4" />
+                {runs.map((run) => (
+                  <th key={run.id} className="text-left align-top font-normal px-3 pb-2 min-w-[9rem]">
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="font-semibold text-slate-200">{run.modelName}</span>
+                      <button onClick={() => benchmark.remove(run.id)} disabled={running} className="text-slate-500 hover:text-white" aria-label={`Remove ${run.modelName} run`}>✕</button>
+                    </div>
+                    <div className="text-xs text-slate-400" title={run.requestedRuntime.device !== run.runtime.device || run.requestedRuntime.dtype !== run.runtime.dtype ? `Requested ${describeRuntime(run.requestedRuntime)}` : undefined}>
+                      {describeRuntime(run.runtime)} · {run.origin}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {run.images.length} {run.imageSet === 'sample' ? 'sample' : run.images.length === 1 ? 'image' : 'images'} · {run.warmup}+{run.iterations} passes
+                    </div>
+                    <div className="text-xs text-slate-500">{new Date(run.createdAt).toLocaleString()}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map((row) => {
+                const lowest = best(row);
+                return (
+                  <tr key={row.label} className="border-t border-slate-800">
+                    <td className="sticky left-0 bg-slate-900 text-slate-400 pr-4 py-1 whitespace-nowrap">{row.label}</td>
+                    {runs.map((run) => {
+                      const value = row.value(run);
+                      return (
+                        <td key={run.id} className={`px-3 py-1 font-mono ${value !== null && value === lowest ? 'text-emerald-300' : 'text-slate-200'}`}>
+                          {value === null ? '—' : row.format(value)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-slate-500">
+            Model load includes downloading when the weights are not cached. Peak heap covers this page only and is not exposed by every browser.
+          </p>
+        </div>
+      ) : (
+        !running && <p className="mt-4 text-sm text-slate-500">No runs yet. Saved runs appear here side by side.</p>
+      )}
+    </div>
+  );
+};
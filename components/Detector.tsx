@@ -1,320 +1,835 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { pipeline } from '@huggingface/transformers';
-import { DetectionResult, AppStatus, PipelineType } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+    BatchItem,
+    DetectionResult,
+    DetectionRun,
+    DetectOptions,
+    AppStatus,
+    HistoryEntry,
+    InputMode,
+    LoadResult,
+    ModelEntry,
+    ModelSource,
+    PostProcessSettings,
+    ProgressMessage,
+    RedactionSettings,
+    RuntimeSettings,
+    SegmentationResult,
+    TilingSettings,
+    ZeroShotQuery,
+} from '../types';
 import { Spinner } from './Spinner';
+import { LiveDetector } from './LiveDetector';
+import { VideoAnalyzer } from './VideoAnalyzer';
+import { ModelSelector } from './ModelSelector';
+import { QueryEditor } from './QueryEditor';
+import { BatchPanel } from './BatchPanel';
+import { ExportMenu, ExportSource } from './ExportMenu';
+import { EvaluationPanel } from './EvaluationPanel';
+import { PostProcessPanel } from './PostProcessPanel';
+import { TilingPanel } from './TilingPanel';
+import { RedactionPanel } from './RedactionPanel';
+import { ZonePanel } from './ZonePanel';
+import { ZoneOverlay } from './ZoneOverlay';
+import { MaskLayer } from './MaskLayer';
+import { HistorySidebar } from './HistorySidebar';
+import { ImageSourceBar } from './ImageSourceBar';
+import { ErrorNotice } from './ErrorNotice';
+import { RuntimeSelector } from './RuntimeSelector';
+import { AnnotationLayer, AnnotationToolbar } from './AnnotationEditor';
+import { OfflineSettings } from './OfflineSettings';
+import { BenchmarkPanel } from './BenchmarkPanel';
+import { useBatchProcessor } from '../hooks/useBatchProcessor';
+import { useAnnotationHistory } from '../hooks/useAnnotationHistory';
+import { useZoneLayout } from '../hooks/useZoneLayout';
+import { useDetectionHistory } from '../hooks/useDetectionHistory';
+import { useBenchmark } from '../hooks/useBenchmark';
+import { speechSupported, useAnnouncer } from '../hooks/useAnnouncer';
+import { labelColor } from '../utils/overlay';
+import { loadImageBitmap } from '../utils/images';
+import { parseQueries, formatQueries } from '../utils/queries';
+import { createRun } from '../utils/runs';
+import { markEdited } from '../utils/annotations';
+import { MODEL_SOURCE_LABELS, describeOrigin, loadModelSource, saveModelSource } from '../utils/modelSources';
+import { INFERENCE_FLOOR, applyPostProcessing, createPostProcessSettings, remapLabels } from '../utils/postprocess';
+import { GroundTruthSet, groundTruthKey, importGroundTruth } from '../utils/groundTruth';
+import { EvaluationImage, evaluateDetections, matchImage } from '../utils/evaluation';
+import { DEFAULT_TILING, computeTiles, tileToNormalized } from '../utils/tiling';
+import { DEFAULT_REDACTION } from '../utils/redaction';
+import { zoneOccupancy } from '../utils/zones';
+import { formatArea, hasMask, maskCoverage } from '../utils/masks';
+import { Direction, describeDetection, describePosition, describeScene, findNeighbor } from '../utils/scene';
+import {
+    DEFAULT_IMAGE_INPUT,
+    ImageInputSettings,
+    ImageMapping,
+    ImagePayload,
+    SAMPLE_IMAGE_URL,
+    describeMapping,
+    fetchImageUrl,
+    mayCarryImage,
+    normalizeImage,
+    readImagePayload,
+} from '../utils/imageInput';
+import { AppError, ERROR_INFO, RecoveryAction, toAppError } from '../utils/errors';
+import { describeRuntime, detectWebGpu, loadRuntimeSettings, saveRuntimeSettings } from '../utils/runtime';
+import { deleteCachedModelFiles } from '../utils/modelCache';
+import { createDetectorClient, DetectorClient, DetectionCancelledError } from '../services/detectorClient';
+import { detectTiled, planTiles } from '../services/tiledDetection';
+import { findSmallerModel, getModelEntry, isSegmentation, isZeroShot } from '../modelRegistry';
 
-export const Detector: React.FC = () => {
-  const [status, setStatus] = useState<AppStatus>(AppStatus.LOADING_MODEL);
-  const [imageSrc, setImageSrc] = useState<string | null>(null);
-  const [detections, setDetections] = useState<DetectionResult[]>([]);
-  const [progress, setProgress] = useState<string>('');
-  
-  // Refs to manage lifecycle and singleton pipeline
-  const detectorRef = useRef<PipelineType | null>(null);
-  const imageRef = useRef<HTMLImageElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Initialize the model
-  useEffect(() => {
-    const loadModel = async () => {
-      try {
-        // @ts-ignore - The progress callback type definition can be tricky to align with strict TS
-        detectorRef.current = await pipeline('object-detection', 'Xenova/detr-resnet-50', {
-          progress_callback: (data: any) => {
-            if (data.status === 'progress') {
-               const p = data.progress ? Math.round(data.progress) : 0;
-               setProgress(`Downloading ${data.file}: ${p}%`);
-            } else if (data.status === 'ready') {
-               setProgress('Initializing...');
-            }
-          }
-        });
-        setStatus(AppStatus.READY);
-      } catch (error) {
-        console.error("Failed to load model:", error);
-        setStatus(AppStatus.ERROR);
-      }
-    };
-
-    loadModel();
-  }, []);
-
-  // Run detection when image changes
-  const runDetection = useCallback(async (src: string) => {
-    if (!detectorRef.current) return;
-
-    setStatus(AppStatus.ANALYZING);
-    setDetections([]);
-    
-    try {
-      // The pipeline accepts the image URL directly
-      const results = await detectorRef.current(src, { threshold: 0.5, percentage: true });
-      setDetections(results);
-      setStatus(AppStatus.READY);
-    } catch (err) {
-      console.error("Detection error:", err);
-      setStatus(AppStatus.ERROR);
-    }
-  }, []);
-
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-      const src = evt.target?.result as string;
-      setImageSrc(src);
-      runDetection(src);
-    };
-    reader.readAsDataURL(file);
-  };
-
-  const handleSampleImage = () => {
-     const sampleUrl = "https://huggingface.co/datasets/Xenova/transformers.js-docs/resolve/main/cats.jpg";
-     setImageSrc(sampleUrl);
-     runDetection(sampleUrl);
-  };
-
-  // Calculate styles for bounding boxes
-  // Since DETR via transformers.js often returns normalized coordinates or pixels depending on config.
-  // The default pipeline call usually handles normalization if we ask it to, or we handle it here.
-  // 'percentage: true' in options returns { box: { xmax, xmin, ymax, ymin } } as fractions 0-1? 
-  // Wait, transformers.js documentation says 'percentage: true' returns detections with bounding box coordinates as percentages.
-  // Let's verify logic:
-  // If percentage=true: xmin, ymin, etc are 0 to 1.
-  // Style: left: xmin * 100%, top: ymin * 100%, width: (xmax-xmin)*100%, height: (ymax-ymin)*100%.
-  
-  const renderBox = (det: DetectionResult, index: number) => {
-    const { box, label, score } = det;
-    // Assuming percentage: true was passed to the pipeline
-    const left = `${box.xmin * 100}%`;
-    const top = `${box.ymin * 100}%`;
-    const width = `${(box.xmax - box.xmin) * 100}%`;
-    const height = `${(box.ymax - box.ymin) * 100}%`;
-    
-    // Generate a consistent color based on label
-    const colorHue = label.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % 360;
-    const color = `hsl(${colorHue}, 80%, 60%)`;
+const DEFAULT_QUERY_TEXT = 'cat, remote control';
 
-    return (
-      <div
-        key={index}
-        className="absolute border-2 flex flex-col"
-        style={{ left, top, width, height, borderColor: color, boxShadow: `0 0 4px ${color}` }}
-      >
-        <span 
-          className="absolute -top-7 left-0 text-xs font-bold px-2 py-1 rounded text-white shadow-sm whitespace-nowrap"
-          style={{ backgroundColor: color }}
-        >
-          {label} ({Math.round(score * 100)}%)
-        </span>
-        <div className="w-full h-full opacity-10" style={{ backgroundColor: color }}></div>
-      </div>
-    );
-  };
-
-  return (
-    <div className="w-full max-w-4xl mx-auto p-6 bg-slate-800/50 rounded-2xl shadow-xl border border-slate-700 backdrop-blur-sm">
-      
-      {/* Header / Controls */}
-      <div className="flex flex-col md:flex-row items-center justify-between mb-6 gap-4">
-        <div>
-           <h2 className="text-2xl font-bold text-white tracking-tight">Detr-ResNet-50</h2>
-           <p className="text-slate-400 text-sm">Client-side object detection powered by Transformers.js</p>
-        </div>
-
-        <div className="flex items-center gap-3">
-            <button
-              onClick={handleSampleImage}
-              disabled={status === AppStatus.LOADING_MODEL || status === AppStatus.ANALYZING}
-              className="px-4 py-2 rounded-lg bg-slate-700 text-slate-200 text-sm font-medium hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              Try Sample
-            </button>
-            <button
-              onClick={() => fileInputRef.current?.click()}
-              disabled={status === AppStatus.LOADING_MODEL || status === AppStatus.ANALYZING}
-              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-               {status === AppStatus.ANALYZING ? <Spinner /> : (
-                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
-               )}
-               Upload Image
-            </button>
-            <input 
-              ref={fileInputRef} 
-              type="file" 
-              className="hidden" 
-              accept="image/*" 
-              onChange={handleFileUpload} 
-            />
-        </div>
-      </div>
+const EVAL_COLORS = {
+    tp: '#34d399',
+    fp: '#fb7185',
+    missed: '#fbbf24',
+};
 
-      {/* Main Display Area */}
-      <div className="relative w-full min-h-[400px] bg-slate-900/80 rounded-xl overflow-hidden border border-slate-700 flex items-center justify-center group">
-        
-        {status === AppStatus.LOADING_MODEL && (
-          <div className="flex flex-col items-center gap-4 p-6 text-center z-10">
-            <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
-            <div>
-              <p className="text-lg font-medium text-white">Loading Model...</p>
-              <p className="text-sm text-slate-400 mt-1 max-w-xs">{progress || "Fetching parameters (~160MB)..."}</p>
-            </div>
-          </div>
-        )}
-
-        {status === AppStatus.ERROR && (
-           <div className="text-red-400 flex flex-col items-center gap-2">
-             <svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"></path></svg>
-             <span>Something went wrong initializing the model.</span>
-           </div>
-        )}
-
-        {!imageSrc && status === AppStatus.READY && (
-          <div className="text-slate-500 flex flex-col items-center">
-            <svg className="w-16 h-16 mb-4 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
-            <p>Upload an image or try sample to start detecting objects</p>
-          </div>
-        )}
-
-        {imageSrc && (
-            <div className="relative w-full h-full flex justify-center">
-                 <img 
-                   ref={imageRef}
-                   src={imageSrc} 
-                   alt="Analyzed content" 
-                   className={`max-w-full max-h-[70vh] object-contain shadow-2xl transition-opacity duration-300 ${status === AppStatus.ANALYZING ? 'opacity-50 blur-sm' : 'opacity-100'}`}
-                 />
-                 
-                 {/* Overlay Container - Must match image dimensions perfectly to align boxes 
-                     In this implementation, we rely on percentages relative to the wrapping div 
-                     which collapses to image size because of flex center, but let's ensure absolute positioning works contextually.
-                     Actually, a common trick is to put the boxes inside a div that has the exact aspect ratio or fits the image.
-                     However, simpler for responsive: absolute full width/height over the image container.
-                 */}
-                 
-                 <div className="absolute inset-0 pointer-events-none">
-                   {/* We need a container that matches the image exact rendered size for % boxes to work relative to image, not the container div which might be wider */}
-                   {/* For simplicity in this demo, assuming image is centered and object-contain. 
-                       For precise boxes on 'object-contain' images, we would need JS to measure rendered size vs natural size. 
-                       However, if we force the wrapper to wrap the image exactly, it's easier.
-                   */}
-                 </div>
-
-                 {/* Render Bounding Boxes inside a container that strictly follows image flow? 
-                     No, standard HTML img flow is hard to overlay exactly without a wrapper.
-                     Let's try a wrapper method for the image.
-                  */}
-            </div>
-        )}
-        
-        {/* Precise Overlay Wrapper: Re-implementing image rendering to ensure boxes overlay correctly */}
-        {imageSrc && status !== AppStatus.LOADING_MODEL && (
-             <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                <div className="relative inline-block">
-                   {/* Hidden ghost image to set container size if we wanted, but simpler is to map boxes to the displayed image if we could.
-                       Actually, to be robust: 
-                   */}
-                   <img src={imageSrc} className="invisible max-w-full max-h-[70vh]" alt="ghost" />
-                   
-                   {/* The actual boxes, positioned absolutely over the centered content area. 
-                       Wait, the previous img was already rendered.
-                       Let's fix the layout structure below in the actual return.
-                   */}
-                </div>
-             </div>
-        )}
-      </div>
-      
-      {/* Clean Implementation for Overlay */}
-      {imageSrc && (
-        <div className="mt-0 hidden">
-           {/* This is a hacky thought process trace. I will fix the main render block below. */}
-        </div>
-      )}
-      
-    </div>
-  );
+const ARROW_DIRECTIONS: Record<string, Direction> = {
+    ArrowLeft: 'left',
+    ArrowRight: 'right',
+    ArrowUp: 'up',
+    ArrowDown: 'down',
 };
 
-// Re-writing the return of Detector to be robust about overlay positioning
-const RobustDetector: React.FC = () => {
-    // ... (reuse logic from above, just fixing the render part)
+interface RobustDetectorProps {
+    model: ModelEntry;
+    onModelChange: (model: ModelEntry) => void;
+}
+
+const RobustDetector: React.FC<RobustDetectorProps> = ({ model, onModelChange }) => {
     const [status, setStatus] = useState<AppStatus>(AppStatus.LOADING_MODEL);
     const [imageSrc, setImageSrc] = useState<string | null>(null);
-    const [detections, setDetections] = useState<DetectionResult[]>([]);
+    // Upright full-resolution copy when imageSrc was downscaled; tiling and exports read it instead
+    const [fullImageSrc, setFullImageSrc] = useState<string | null>(null);
+    const [imageName, setImageName] = useState<string>('image');
+    // Natural size of the displayed image; needed to turn normalized boxes into pixels on export
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    // Everything the model returned above INFERENCE_FLOOR; what is shown is derived from it
+    const [rawDetections, setRawDetections] = useState<DetectionResult[]>([]);
+    const [postProcess, setPostProcess] = useState<PostProcessSettings>(() => createPostProcessSettings(model.defaultThreshold));
+    const [showFilters, setShowFilters] = useState(false);
     const [progress, setProgress] = useState<string>('');
-    const detectorRef = useRef<PipelineType | null>(null);
+    const [mode, setMode] = useState<InputMode>('image');
+    const [queryText, setQueryText] = useState<string>(DEFAULT_QUERY_TEXT);
+    const [queries, setQueries] = useState<ZeroShotQuery[]>(() => parseQueries(DEFAULT_QUERY_TEXT, [], model.defaultThreshold));
+    const [run, setRun] = useState<DetectionRun | null>(null);
+    const [showEvaluation, setShowEvaluation] = useState(false);
+    const [groundTruth, setGroundTruth] = useState<GroundTruthSet>(() => new Map());
+    const [groundTruthWarnings, setGroundTruthWarnings] = useState<string[]>([]);
+    const [evalIou, setEvalIou] = useState(0.5);
+    const [editing, setEditing] = useState(false);
+    const [selectedBox, setSelectedBox] = useState<number | null>(null);
+    // The overlay box that has (or last had) keyboard focus, mirrored in the summary grid
+    const [focusedBox, setFocusedBox] = useState<number | null>(null);
+    const boxRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const [drawLabel, setDrawLabel] = useState('');
+    // Hand edits of batch images, keyed by item id, so they survive switching between items
+    const [batchEdits, setBatchEdits] = useState<Map<string, DetectionResult[]>>(() => new Map());
+    const [openBatchItemId, setOpenBatchItemId] = useState<string | null>(null);
+    const [modelSource, setModelSource] = useState<ModelSource>(loadModelSource);
+    // Where the model was read from and what it runs on; null until a load finishes
+    const [loadResult, setLoadResult] = useState<LoadResult | null>(null);
+    const [loadError, setLoadError] = useState<AppError | null>(null);
+    // Bumped to load the same model again after a failure
+    const [loadAttempt, setLoadAttempt] = useState(0);
+    const [runtime, setRuntime] = useState<RuntimeSettings>(loadRuntimeSettings);
+    const [webGpuAvailable, setWebGpuAvailable] = useState<boolean | null>(null);
+    const modelOrigin = loadResult?.origin ?? null;
+    const [showSettings, setShowSettings] = useState(false);
+    const [tiling, setTiling] = useState<TilingSettings>(DEFAULT_TILING);
+    const [showTiling, setShowTiling] = useState(false);
+    const [showTileGrid, setShowTileGrid] = useState(false);
+    const [tileProgress, setTileProgress] = useState<{ done: number; total: number } | null>(null);
+    const [redaction, setRedaction] = useState<RedactionSettings>(DEFAULT_REDACTION);
+    const [showRedaction, setShowRedaction] = useState(false);
+    const [showZones, setShowZones] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showBenchmark, setShowBenchmark] = useState(false);
+    const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
+    const [hiddenMaskLabels, setHiddenMaskLabels] = useState<string[]>([]);
+    const [inputSettings, setInputSettings] = useState<ImageInputSettings>(DEFAULT_IMAGE_INPUT);
+    // Failure of the last input or analysis; the model stays loaded and usable
+    const [imageError, setImageError] = useState<{ error: AppError; phase: 'input' | 'detect' } | null>(null);
+    // How the shown image relates to the provided file; null for snapshots, batch items and history
+    const [imageMapping, setImageMapping] = useState<ImageMapping | null>(null);
+    const [preparingInput, setPreparingInput] = useState(false);
+    const [dragActive, setDragActive] = useState(false);
+    const clientRef = useRef<DetectorClient | null>(null);
+    // Bumped for every new image; results belonging to an older request are dropped
+    const requestSeqRef = useRef(0);
+    const activeJobRef = useRef<number | null>(null);
+    const imageSrcRef = useRef<string | null>(null);
+    const fullImageSrcRef = useRef<string | null>(null);
+    // The Blob behind imageSrc when there is one; saved to the history directly, since the URL may be revoked meanwhile
+    const imageBlobRef = useRef<Blob | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // The local path only matters in local mode; editing it elsewhere must not reload the model
+    const activeSource = useMemo(
+        () => modelSource,
+        [modelSource.mode, modelSource.mode === 'local' ? modelSource.localPath : '', modelSource.files],
+    );
+    const zeroShot = isZeroShot(model);
+    const segmentation = isSegmentation(model);
+    // Panoptic segments compete for pixels, so low-scoring ones would eat into the masks of
+    // confident ones; segmentation runs at the model threshold instead of the floor
+    const detectOptions = useMemo<DetectOptions>(() => ({
+        threshold: segmentation ? model.defaultThreshold : INFERENCE_FLOOR,
+        percentage: true,
+        queries: zeroShot ? queries : undefined,
+    }), [zeroShot, segmentation, model.defaultThreshold, queries]);
+    // Masks cannot be stitched across tiles, so segmentation always sees the whole image
+    const activeTiling = useMemo(() => (segmentation ? { ...tiling, enabled: false } : tiling), [segmentation, tiling]);
+    const filters = useMemo<PostProcessSettings>(
+        () => ({ ...postProcess, queries: zeroShot ? queries : undefined }),
+        [postProcess, zeroShot, queries],
+    );
+    // A reopened history entry keeps the queries it was run with, whichever model is selected now
+    const viewFilters = useMemo<PostProcessSettings>(
+        () => (historyEntryId ? { ...postProcess, queries: run?.queries } : filters),
+        [historyEntryId, run, postProcess, filters],
+    );
+    const modelDetections = useMemo(() => applyPostProcessing(rawDetections, viewFilters), [rawDetections, viewFilters]);
+    const editor = useAnnotationHistory();
+    const zones = useZoneLayout();
+    const history = useDetectionHistory();
+    // Set for runs produced by the model here, so reopened entries and batch items are not saved again
+    const unsavedRunRef = useRef<DetectionRun | null>(null);
+    // Object URLs created here (normalized inputs, reopened history images), released once another image replaces them
+    const ownedUrlsRef = useRef(new Set<string>());
+    // Bumped for every new input, so a slow download or decode cannot replace a newer image
+    const inputSeqRef = useRef(0);
+    // Repeats the last download or file read when the user retries a failed input
+    const lastInputRef = useRef<(() => Promise<{ blob: Blob; name: string }>) | null>(null);
+    // Once edited, the hand-corrected set replaces the model output everywhere detections are read
+    const detections = editor.annotations ?? modelDetections;
+    // Lets runDetection read the latest settings without changing identity (which would reload the model)
+    const settingsRef = useRef({ model, detectOptions, postProcess, tiling: activeTiling, input: inputSettings, runtime: loadResult?.runtime });
+    settingsRef.current = { model, detectOptions, postProcess, tiling: activeTiling, input: inputSettings, runtime: loadResult?.runtime };
+    const batch = useBatchProcessor(clientRef, settingsRef);
+    const benchmarkContextRef = useRef({ source: modelSource, queries, postProcess, input: inputSettings });
+    benchmarkContextRef.current = { source: modelSource, queries, postProcess, input: inputSettings };
+    const benchmark = useBenchmark(benchmarkContextRef);
+    const announcer = useAnnouncer();
+    const sceneSummary = useMemo(() => describeScene(detections), [detections]);
+    // Batch items carry raw detections; views and exports see them through the same filters
+    const batchItems = useMemo(
+        () => batch.items.map((item) => (item.status === 'done'
+            ? { ...item, detections: batchEdits.get(item.id) ?? applyPostProcessing(item.detections, filters) }
+            : item)),
+        [batch.items, filters, batchEdits],
+    );
+
     useEffect(() => {
-        const loadModel = async () => {
-          try {
-            // @ts-ignore
-            detectorRef.current = await pipeline('object-detection', 'Xenova/detr-resnet-50', {
-              progress_callback: (data: any) => {
-                if (data.status === 'progress') {
-                    const p = data.progress ? Math.round(data.progress) : 0;
-                    setProgress(`Loading Model: ${p}%`);
-                } else if (data.status === 'ready') {
-                    setProgress('Initializing...');
-                }
-              }
-            });
-            setStatus(AppStatus.READY);
-          } catch (error) {
-            console.error(error);
+        imageSrcRef.current = imageSrc;
+        setImageSize(null);
+    }, [imageSrc]);
+
+    useEffect(() => () => {
+        if (imageSrc && ownedUrlsRef.current.delete(imageSrc)) URL.revokeObjectURL(imageSrc);
+    }, [imageSrc]);
+
+    useEffect(() => {
+        fullImageSrcRef.current = fullImageSrc;
+        return () => {
+            if (fullImageSrc && ownedUrlsRef.current.delete(fullImageSrc)) URL.revokeObjectURL(fullImageSrc);
+        };
+    }, [fullImageSrc]);
+
+    useEffect(() => {
+        if (!openBatchItemId) return;
+        const edits = editor.annotations;
+        setBatchEdits((prev) => {
+            if (prev.get(openBatchItemId) === edits || (!edits && !prev.has(openBatchItemId))) return prev;
+            const next = new Map(prev);
+            if (edits) next.set(openBatchItemId, edits);
+            else next.delete(openBatchItemId);
+            return next;
+        });
+    }, [openBatchItemId, editor.annotations]);
+
+    useEffect(() => {
+        const client = createDetectorClient((data: ProgressMessage) => {
+            const name = getModelEntry(data.model)?.name ?? data.model;
+            if (data.status === 'progress') {
+                const p = data.progress ? Math.round(data.progress) : 0;
+                setProgress(`Loading ${name}: ${data.file ?? ''} ${p}%`);
+            } else if (data.status === 'ready') {
+                setProgress(`Initializing ${name}...`);
+            }
+        }, (error) => {
+            // The worker lost its model (a restart after running out of memory failed); retrying loads it again
+            console.error('Detector worker error:', error);
+            setLoadError(error);
             setStatus(AppStatus.ERROR);
-          }
+        });
+        clientRef.current = client;
+        return () => {
+            clientRef.current = null;
+            client.dispose();
         };
-        loadModel();
     }, []);
 
+    const cancelActiveJob = useCallback(() => {
+        requestSeqRef.current++;
+        if (activeJobRef.current !== null) {
+            clientRef.current?.cancel(activeJobRef.current);
+            activeJobRef.current = null;
+        }
+    }, []);
+
+    // New model output invalidates hand edits of whatever was shown before
+    const resetAnnotations = useCallback((annotations: DetectionResult[] | null = null) => {
+        editor.load(annotations);
+        setEditing(false);
+        setSelectedBox(null);
+        setFocusedBox(null);
+    }, [editor.load]);
+
     const runDetection = useCallback(async (src: string) => {
-        if (!detectorRef.current) return;
+        const client = clientRef.current;
+        if (!client) return;
+        cancelActiveJob();
+        resetAnnotations();
+        setOpenBatchItemId(null);
+        setHistoryEntryId(null);
+        setImageError(null);
+        const requestId = requestSeqRef.current;
+        const { model: runModel, detectOptions: options, postProcess: runFilters, tiling: runTiling, runtime: runRuntime } = settingsRef.current;
         setStatus(AppStatus.ANALYZING);
-        setDetections([]);
+        setRawDetections([]);
+        setRun(null);
+        setTileProgress(null);
         try {
-            const results = await detectorRef.current(src, { threshold: 0.5, percentage: true });
-            setDetections(results);
+            // Tiles are cut from the original pixels, so small objects keep their resolution
+            const source = runTiling.enabled ? fullImageSrcRef.current ?? src : src;
+            const bitmap = await loadImageBitmap(source).catch((err) => {
+                throw toAppError(err, 'decode');
+            });
+            if (requestId !== requestSeqRef.current) {
+                bitmap.close();
+                return;
+            }
+            let results: DetectionResult[];
+            if (runTiling.enabled) {
+                results = await detectTiled(client, bitmap, options, runTiling, {
+                    onJob: (jobId) => { activeJobRef.current = jobId; },
+                    onProgress: (done, total) => {
+                        if (requestId === requestSeqRef.current) setTileProgress({ done, total });
+                    },
+                    isCancelled: () => requestId !== requestSeqRef.current,
+                });
+            } else {
+                const job = client.detect(bitmap, options);
+                activeJobRef.current = job.id;
+                results = await job.result;
+            }
+            if (requestId !== requestSeqRef.current) return;
+            activeJobRef.current = null;
+            setTileProgress(null);
+            const newRun = createRun(runModel, options, runFilters, runTiling, runRuntime);
+            unsavedRunRef.current = newRun;
+            setRawDetections(results);
+            setRun(newRun);
             setStatus(AppStatus.READY);
         } catch (err) {
-            setStatus(AppStatus.ERROR);
+            // A newer image took over; its own request owns the status now
+            if (err instanceof DetectionCancelledError || requestId !== requestSeqRef.current) return;
+            console.error("Detection error:", err);
+            activeJobRef.current = null;
+            setTileProgress(null);
+            setImageError({ error: toAppError(err, 'inference'), phase: 'detect' });
+            // The model itself is fine; only this image failed
+            setStatus(AppStatus.READY);
         }
+    }, [cancelActiveJob, resetAnnotations]);
+
+    // (Re)load whenever the selected model changes; the worker disposes the previous pipeline
+    useEffect(() => {
+        const client = clientRef.current;
+        if (!client) return;
+        let stale = false;
+        cancelActiveJob();
+        setStatus(AppStatus.LOADING_MODEL);
+        setProgress('');
+        setLoadResult(null);
+        setLoadError(null);
+        setImageError(null);
+        setRawDetections([]);
+        setRun(null);
+        resetAnnotations();
+        setOpenBatchItemId(null);
+        setPostProcess((prev) => ({ ...prev, threshold: model.defaultThreshold }));
+        client.load(model.id, model.task, activeSource, runtime)
+            .then((result: LoadResult) => {
+                if (stale) return;
+                if (result.fallbacks.length > 0) console.warn('Runtime fallback:', result.fallbacks);
+                setLoadResult(result);
+                setStatus(AppStatus.READY);
+                // Results from the previous model no longer apply, so analyze the current image again
+                if (imageSrcRef.current) runDetection(imageSrcRef.current);
+            })
+            .catch((error) => {
+                if (stale) return;
+                console.error(error);
+                setLoadError(toAppError(error, 'network'));
+                setStatus(AppStatus.ERROR);
+            });
+        return () => {
+            stale = true;
+        };
+    }, [model, activeSource, runtime, loadAttempt, cancelActiveJob, runDetection, resetAnnotations]);
+
+    useEffect(() => {
+        detectWebGpu().then(setWebGpuAvailable);
     }, []);
 
+    const handleRuntimeChange = (next: RuntimeSettings) => {
+        saveRuntimeSettings(next);
+        setRuntime(next);
+    };
+
+    const handleSourceChange = (source: ModelSource) => {
+        saveModelSource(source);
+        setModelSource(source);
+    };
+
+    const handleModelChange = (entry: ModelEntry) => {
+        if (entry.id !== model.id) onModelChange(entry);
+    };
+
+    const handleQueryTextChange = (text: string) => {
+        setQueryText(text);
+        setQueries((prev) => parseQueries(text, prev, model.defaultThreshold));
+    };
+
+    const handleQueryThreshold = (label: string, threshold: number) => {
+        setQueries((prev) => prev.map((q) => (q.label === label ? { ...q, threshold } : q)));
+    };
+
+    // Files, drops, pastes and URLs all end up here; the model only ever sees normalized images
+    const openImage = async (load: () => Promise<{ blob: Blob; name: string }>) => {
+        const inputId = ++inputSeqRef.current;
+        lastInputRef.current = load;
+        setImageError(null);
+        setPreparingInput(true);
+        try {
+            const { blob, name } = await load();
+            const normalized = await normalizeImage(blob, name, inputSettings);
+            if (inputId !== inputSeqRef.current) return;
+            const url = URL.createObjectURL(normalized.blob);
+            ownedUrlsRef.current.add(url);
+            let fullUrl: string | null = null;
+            if (normalized.fullSize !== normalized.blob) {
+                fullUrl = URL.createObjectURL(normalized.fullSize);
+                ownedUrlsRef.current.add(fullUrl);
+            }
+            // Set before detection starts so a tiled run picks up this image's full-size copy
+            fullImageSrcRef.current = fullUrl;
+            setMode('image');
+            setImageName(normalized.name);
+            setImageMapping(normalized.mapping);
+            imageBlobRef.current = normalized.blob;
+            setImageSrc(url);
+            setFullImageSrc(fullUrl);
+            runDetection(url);
+        } catch (err) {
+            if (inputId !== inputSeqRef.current) return;
+            console.error('Could not open the image:', err);
+            setImageError({ error: toAppError(err, 'decode'), phase: 'input' });
+        } finally {
+            if (inputId === inputSeqRef.current) setPreparingInput(false);
+        }
+    };
+
+    const openFile = (file: File) => openImage(async () => ({ blob: file, name: file.name }));
+    const openUrl = (url: string) => openImage(() => fetchImageUrl(url));
+
+    const handlePayload = (payload: ImagePayload) => {
+        if (payload.kind === 'url') openUrl(payload.url);
+        // Batch mode collects dropped and pasted files instead of replacing the image
+        else if (mode === 'batch') batch.addFiles([payload.file]);
+        else openFile(payload.file);
+    };
+
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (!file) return;
-        const reader = new FileReader();
-        reader.onload = (evt) => {
-            const src = evt.target?.result as string;
-            setImageSrc(src);
-            runDetection(src);
-        };
-        reader.readAsDataURL(file);
+        e.target.value = '';
+        if (file) openFile(file);
     };
 
     const handleSampleImage = () => {
-         const sampleUrl = "https://huggingface.co/datasets/Xenova/transformers.js-docs/resolve/main/cats.jpg";
-         setImageSrc(sampleUrl);
-         runDetection(sampleUrl);
+         openUrl(SAMPLE_IMAGE_URL);
+    };
+
+    const canAcceptInput = status !== AppStatus.LOADING_MODEL && status !== AppStatus.ANALYZING;
+    const handlePayloadRef = useRef(handlePayload);
+    handlePayloadRef.current = canAcceptInput ? handlePayload : () => {};
+
+    // Ctrl+V anywhere on the page; pasted text only counts outside of text fields
+    useEffect(() => {
+        const onPaste = (event: ClipboardEvent) => {
+            const payload = readImagePayload(event.clipboardData);
+            if (!payload) return;
+            const target = event.target as HTMLElement | null;
+            const inTextField = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+            if (payload.kind === 'url' && inTextField) return;
+            event.preventDefault();
+            handlePayloadRef.current(payload);
+        };
+        window.addEventListener('paste', onPaste);
+        return () => window.removeEventListener('paste', onPaste);
+    }, []);
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!canAcceptInput || !mayCarryImage(e.dataTransfer)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setDragActive(true);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        setDragActive(false);
+        if (!canAcceptInput) return;
+        e.preventDefault();
+        if (mode === 'batch' && e.dataTransfer.files.length > 1) {
+            batch.addFiles(e.dataTransfer.files);
+            return;
+        }
+        const payload = readImagePayload(e.dataTransfer);
+        if (payload) handlePayload(payload);
+        else setImageError({ error: new AppError('decode', 'Only image files and image links can be dropped here.'), phase: 'input' });
+    };
+
+    const smallerModel = findSmallerModel(model);
+
+    // Only offer what can work from here: nothing image-related while no model is loaded
+    const recoveryActions = (error: AppError, phase: 'load' | 'input' | 'detect'): RecoveryAction[] =>
+        ERROR_INFO[error.kind].actions.filter((action) => {
+            if (action === 'smaller-model') return !!smallerModel;
+            if (action === 'clear-cache') return phase === 'load';
+            if (action === 'another-image') return phase !== 'load';
+            return true;
+        });
+
+    const handleRecovery = async (action: RecoveryAction) => {
+        switch (action) {
+            case 'retry':
+                if (status === AppStatus.ERROR) setLoadAttempt((n) => n + 1);
+                else if (imageError?.phase === 'input' && lastInputRef.current) openImage(lastInputRef.current);
+                else if (imageSrc) runDetection(imageSrc);
+                break;
+            case 'clear-cache':
+                try {
+                    await deleteCachedModelFiles(model.id);
+                } catch (err) {
+                    console.error('Could not clear the model cache:', err);
+                }
+                setLoadAttempt((n) => n + 1);
+                break;
+            case 'smaller-model':
+                if (smallerModel) onModelChange(smallerModel);
+                break;
+            case 'another-image':
+                setImageError(null);
+                fileInputRef.current?.click();
+                break;
+        }
     };
 
+    // A live snapshot lands in the regular image view, frozen with the boxes computed on that frame
+    const handleSnapshot = (src: string, frameDetections: DetectionResult[]) => {
+        cancelActiveJob();
+        inputSeqRef.current++;
+        setImageName(`snapshot-${new Date().toISOString().replace(/[:.]/g, '-')}.jpg`);
+        setImageMapping(null);
+        imageBlobRef.current = null;
+        setImageSrc(src);
+        setFullImageSrc(null);
+        setRawDetections(frameDetections);
+        resetAnnotations();
+        setOpenBatchItemId(null);
+        setHistoryEntryId(null);
+        const newRun = createRun(model, detectOptions, postProcess);
+        unsavedRunRef.current = newRun;
+        setRun(newRun);
+        setStatus(AppStatus.READY);
+        setMode('image');
+    };
+
+    // Batch results open in the regular overlay view without running the model again
+    const handleOpenBatchItem = (shown: BatchItem) => {
+        const item = batch.items.find((i) => i.id === shown.id) ?? shown;
+        cancelActiveJob();
+        inputSeqRef.current++;
+        setImageName(item.name);
+        setImageMapping(null);
+        imageBlobRef.current = null;
+        setImageSrc(item.src);
+        setFullImageSrc(null);
+        setRawDetections(item.detections);
+        resetAnnotations(batchEdits.get(item.id) ?? null);
+        setOpenBatchItemId(item.id);
+        setHistoryEntryId(null);
+        setRun(item.run ?? null);
+        setStatus(AppStatus.READY);
+        setMode('image');
+    };
+
+    // History entries restore the stored detections and filters; the model is not run again
+    const handleOpenHistoryEntry = async (entry: HistoryEntry) => {
+        if (status === AppStatus.LOADING_MODEL) return;
+        const image = await history.loadImage(entry.id).catch((err) => {
+            console.error('Could not read the history image:', err);
+            return null;
+        });
+        if (!image) return;
+        cancelActiveJob();
+        inputSeqRef.current++;
+        const url = URL.createObjectURL(image);
+        ownedUrlsRef.current.add(url);
+        setImageName(entry.name);
+        setImageMapping(null);
+        imageBlobRef.current = image;
+        setImageSrc(url);
+        setFullImageSrc(null);
+        setRawDetections(entry.rawDetections);
+        setPostProcess(entry.postProcess);
+        resetAnnotations();
+        setOpenBatchItemId(null);
+        setHistoryEntryId(entry.id);
+        setRun(entry.run);
+        setStatus(AppStatus.READY);
+        setMode('image');
+    };
+
+    useEffect(() => {
+        if (!run || run !== unsavedRunRef.current || !imageSrc) return;
+        unsavedRunRef.current = null;
+        history.save({ name: imageName, image: imageBlobRef.current ?? imageSrc, run, postProcess, rawDetections, detections: modelDetections });
+    }, [run, imageSrc, imageName, postProcess, rawDetections, modelDetections, history.save]);
+
+    // Status changes go to the live region; errors announce themselves through ErrorNotice
+    const previousStatusRef = useRef(status);
+    useEffect(() => {
+        const previous = previousStatusRef.current;
+        previousStatusRef.current = status;
+        if (status === AppStatus.LOADING_MODEL) announcer.announce(`Loading ${model.name}`);
+        else if (status === AppStatus.ANALYZING) announcer.announce('Analyzing image');
+        else if (status === AppStatus.READY && previous === AppStatus.LOADING_MODEL) announcer.announce(`${model.name} is ready`);
+    }, [status]);
+
+    // Each new result is summarized once; later filter changes update the text without announcing it
+    useEffect(() => {
+        if (run && mode === 'image') announcer.announce(sceneSummary, true);
+    }, [run]);
+
+    const handleToggleEditing = () => {
+        if (editing) {
+            setEditing(false);
+            setSelectedBox(null);
+            return;
+        }
+        editor.begin(detections);
+        zones.setTool(null);
+        setEditing(true);
+    };
+
+    // Both editors listen for Escape and Backspace, so only one may be active
+    useEffect(() => {
+        if (zones.tool) setEditing(false);
+    }, [zones.tool]);
+
+    const handleRelabel = (label: string) => {
+        if (selected === null) return;
+        editor.commit(detections.map((det, i) => (i === selected ? markEdited(det, { label }) : det)));
+        setDrawLabel(label);
+    };
+
+    const handleDeleteBox = () => {
+        if (selected === null) return;
+        editor.commit(detections.filter((_, i) => i !== selected));
+        setSelectedBox(null);
+    };
+
+    const focusBox = (index: number) => {
+        setFocusedBox(index);
+        boxRefs.current[index]?.focus();
+    };
+
+    // Arrow keys move to the nearest box in that direction; Home and End jump to the first and last
+    const handleBoxKeyDown = (e: React.KeyboardEvent, index: number) => {
+        let next: number | null;
+        if (e.key in ARROW_DIRECTIONS) next = findNeighbor(detections, index, ARROW_DIRECTIONS[e.key]);
+        else if (e.key === 'Home') next = 0;
+        else if (e.key === 'End') next = detections.length - 1;
+        else return;
+        e.preventDefault();
+        if (next !== null) focusBox(next);
+    };
+
+    const handleLoadGroundTruth = async (files: File[]) => {
+        const { annotations, warnings } = await importGroundTruth(files, model.labels);
+        setGroundTruth((prev) => new Map([...prev, ...annotations]));
+        setGroundTruthWarnings(warnings);
+    };
+
+    const handleClearGroundTruth = () => {
+        setGroundTruth(new Map());
+        setGroundTruthWarnings([]);
+    };
+
+    const hasCurrentResult = mode === 'image' && !!imageSrc && !!run && status === AppStatus.READY;
+    // Undo can shrink the list under the selection
+    const selected = selectedBox !== null && selectedBox < detections.length ? selectedBox : null;
+    const activeBox = focusedBox !== null && focusedBox < detections.length ? focusedBox : null;
+    const isEditing = editing && hasCurrentResult;
+    const currentGroundTruth = hasCurrentResult ? groundTruth.get(groundTruthKey(imageName)) : undefined;
+    const currentMatch = useMemo(
+        () => (showEvaluation && currentGroundTruth ? matchImage(detections, currentGroundTruth, evalIou) : null),
+        [showEvaluation, currentGroundTruth, detections, evalIou],
+    );
+
+    // Batch items with annotations, plus the current image unless it is one of them
+    const evaluationReport = useMemo(() => {
+        if (!showEvaluation || groundTruth.size === 0) return null;
+        const images: EvaluationImage[] = [];
+        const seen = new Set<string>();
+        for (const item of batchItems) {
+            const key = groundTruthKey(item.name);
+            const gt = groundTruth.get(key);
+            if (item.status !== 'done' || !gt || seen.has(key)) continue;
+            seen.add(key);
+            images.push({ detections: item.detections, groundTruth: gt });
+        }
+        if (currentGroundTruth && !seen.has(groundTruthKey(imageName))) {
+            images.push({ detections, groundTruth: currentGroundTruth });
+        }
+        return images.length > 0 ? evaluateDetections(images, evalIou) : null;
+    }, [showEvaluation, groundTruth, batchItems, currentGroundTruth, imageName, detections, evalIou]);
+
+    // Pixel coordinates refer to the original file, even when a downscaled copy is displayed
+    const originalSize = imageMapping ? { width: imageMapping.originalWidth, height: imageMapping.originalHeight } : imageSize;
+
+    // Tiles the next analysis would use, drawn in image space (the full-image pass is not shown)
+    const tileGrid = useMemo(
+        () => (showTileGrid && activeTiling.enabled && originalSize
+            ? computeTiles(originalSize.width, originalSize.height, activeTiling.tileSize, activeTiling.overlap)
+                .map((tile) => tileToNormalized(tile, originalSize.width, originalSize.height))
+            : []),
+        [showTileGrid, activeTiling, originalSize?.width, originalSize?.height],
+    );
+    const tilePasses = originalSize ? planTiles(originalSize.width, originalSize.height, tiling).length : null;
+
+    // A moved or resized box no longer matches its mask, so edited detections only show the box
+    const visibleMasks = useMemo(
+        () => detections.filter((det): det is SegmentationResult => hasMask(det) && !det.edited && !hiddenMaskLabels.includes(det.label)),
+        [detections, hiddenMaskLabels],
+    );
+    const toggleMaskLabel = (label: string) => {
+        setHiddenMaskLabels((prev) => (prev.includes(label) ? prev.filter((l) => l !== label) : [...prev, label]));
+    };
+
+    const imageZoneSample = useMemo(
+        () => (zones.isEmpty ? null : { time: 0, occupancy: zoneOccupancy(zones.layout.zones, detections), crossings: {} }),
+        [zones.isEmpty, zones.layout, detections],
+    );
+
+    // Exports draw on the full-size copy, so the pixels match the reported size
+    const exportCurrent: ExportSource | null = mode === 'image' && imageSrc && originalSize && status === AppStatus.READY
+        ? { name: imageName, src: fullImageSrc ?? imageSrc, detections, ...originalSize }
+        : null;
+    const exportBatch: ExportSource[] = batchItems
+        .filter((item) => item.status === 'done' && item.width && item.height)
+        .map((item) => ({ name: item.name, src: item.src, detections: item.detections, width: item.width!, height: item.height! }));
+    const filterLabels = useMemo(() => {
+        const base = viewFilters.queries ? rawDetections.filter((d) => viewFilters.queries!.some((q) => q.label === d.label)) : rawDetections;
+        const labels = new Set(remapLabels(base, viewFilters.labelMap).map((d) => d.label));
+        viewFilters.excludedLabels.forEach((label) => labels.add(label));
+        return Array.from(labels).sort();
+    }, [rawDetections, viewFilters]);
+
+    const exportLabels = model.labels.length > 0 ? model.labels : queries.map((q) => q.label);
+    const labelSuggestions = Array.from(new Set([...exportLabels, ...detections.map((d) => d.label)])).sort();
+
     return (
         <div className="w-full max-w-5xl mx-auto p-6 bg-slate-800/50 rounded-3xl shadow-2xl border border-slate-700/50 backdrop-blur-xl">
+             <div role="status" className="sr-only">{announcer.message}</div>
              <div className="flex flex-col md:flex-row items-center justify-between mb-8 gap-6 border-b border-slate-700/50 pb-6">
                 <div>
                    <div className="flex items-center gap-3 mb-1">
                      <div className="w-2 h-8 bg-indigo-500 rounded-full"></div>
                      <h2 className="text-3xl font-bold text-white tracking-tight">ObjectSense AI</h2>
                    </div>
-                   <p className="text-slate-400 text-sm pl-5">Powered by DETR ResNet-50 & WebAssembly</p>
+                   <p className="text-slate-400 text-sm pl-5">Powered by {model.name} · {describeRuntime(loadResult?.runtime ?? runtime)}</p>
+                   <p className="text-slate-500 text-xs pl-5 mt-1">
+                       {modelOrigin ? describeOrigin(modelOrigin, modelSource) : `Source: ${MODEL_SOURCE_LABELS[modelSource.mode]}`}
+                   </p>
+                   {loadResult && loadResult.fallbacks.length > 0 && (
+                       <p
+                           className="text-amber-300/90 text-xs pl-5 mt-1 max-w-md"
+                           title={loadResult.fallbacks.map((f) => `${describeRuntime(f.runtime)}: ${f.reason}`).join('\n')}
+                       >
+                           {describeRuntime(runtime)} could not start ({loadResult.fallbacks[0].reason}), so the model runs on {describeRuntime(loadResult.runtime)}.
+                       </p>
+                   )}
                 </div>
         
-                <div className="flex items-center gap-3">
+                <div className="flex flex-wrap items-center justify-end gap-3">
+                    <ModelSelector
+                      model={model}
+                      onChange={handleModelChange}
+                      disabled={status === AppStatus.LOADING_MODEL || status === AppStatus.ANALYZING}
+                    />
+                    <RuntimeSelector
+                      runtime={runtime}
+                      onChange={handleRuntimeChange}
+                      webGpuAvailable={webGpuAvailable}
+                      disabled={status === AppStatus.LOADING_MODEL || status === AppStatus.ANALYZING}
+                    />
+                    <div className="flex p-1 rounded-xl bg-slate-900/60 border border-slate-700">
+                      {(['image', 'live', 'video', 'batch'] as InputMode[]).map((m) => (
+                        <button
+                          key={m}
+                          onClick={() => setMode(m)}
+                          disabled={status === AppStatus.LOADING_MODEL}
+                          className={`px-4 py-1.5 rounded-lg text-sm font-medium capitalize transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${mode === m ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                          {m}
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => setShowSettings((v) => !v)}
+                      className={`px-4 py-2.5 rounded-xl text-sm font-medium transition-colors border ${showSettings ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                    >
+                      Offline
+                    </button>
+                    <button
+                      onClick={() => setShowHistory((v) => !v)}
+                      className={`px-4 py-2.5 rounded-xl text-sm font-medium transition-colors border ${showHistory ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                    >
+                      History
+                    </button>
+                    <button
+                      onClick={() => setShowBenchmark((v) => !v)}
+                      className={`px-4 py-2.5 rounded-xl text-sm font-medium transition-colors border ${showBenchmark ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                    >
+                      Benchmark
+                    </button>
+                    <button
+                      onClick={() => setShowZones((v) => !v)}
+                      disabled={mode === 'batch'}
+                      className={`px-4 py-2.5 rounded-xl text-sm font-medium transition-colors border disabled:opacity-50 disabled:cursor-not-allowed ${showZones && mode !== 'batch' ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                    >
+                      Zones
+                    </button>
                     <button
                       onClick={handleSampleImage}
                       disabled={status === AppStatus.LOADING_MODEL || status === AppStatus.ANALYZING}
@@ -342,8 +857,84 @@ const RobustDetector: React.FC = () => {
                 </div>
               </div>
 
-              <div className="relative min-h-[500px] bg-slate-900 rounded-2xl overflow-hidden border border-slate-800 flex items-center justify-center">
-                 
+              {showSettings && (
+                  <OfflineSettings
+                    source={modelSource}
+                    onSourceChange={handleSourceChange}
+                    origin={modelOrigin}
+                    disabled={status === AppStatus.LOADING_MODEL || status === AppStatus.ANALYZING}
+                  />
+              )}
+
+              {showHistory && (
+                  <HistorySidebar
+                      history={history}
+                      activeId={historyEntryId}
+                      onOpen={handleOpenHistoryEntry}
+                      onClose={() => setShowHistory(false)}
+                  />
+              )}
+
+              {showBenchmark && (
+                  <BenchmarkPanel
+                      benchmark={benchmark}
+                      model={model}
+                      runtime={runtime}
+                      webGpuAvailable={webGpuAvailable}
+                      maxSide={inputSettings.maxSide}
+                  />
+              )}
+
+              {showZones && mode !== 'batch' && <ZonePanel zones={zones} />}
+
+              {mode === 'image' && (
+                  <ImageSourceBar
+                      settings={inputSettings}
+                      onSettingsChange={setInputSettings}
+                      onAnalyzeUrl={openUrl}
+                      disabled={!canAcceptInput || preparingInput}
+                  />
+              )}
+
+              {imageError && status !== AppStatus.ERROR && (mode === 'image' || mode === 'batch') && (
+                  <ErrorNotice
+                      error={imageError.error}
+                      actions={recoveryActions(imageError.error, imageError.phase)}
+                      onAction={handleRecovery}
+                      onDismiss={() => setImageError(null)}
+                      className="mb-4"
+                  />
+              )}
+
+              {zeroShot && (
+                  <QueryEditor
+                    text={queryText}
+                    queries={queries}
+                    onTextChange={handleQueryTextChange}
+                    onThresholdChange={handleQueryThreshold}
+                    onDetect={() => imageSrc && runDetection(imageSrc)}
+                    canDetect={mode === 'image' && !!imageSrc && queries.length > 0 && status === AppStatus.READY}
+                  />
+              )}
+
+              <div
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                  className={`relative min-h-[500px] bg-slate-900 rounded-2xl overflow-hidden border flex items-center justify-center ${dragActive ? 'border-indigo-500' : 'border-slate-800'}`}
+              >
+                 {dragActive && (
+                    <div className="absolute inset-0 z-30 flex items-center justify-center bg-indigo-950/70 pointer-events-none">
+                        <p className="text-lg font-medium text-indigo-100">{mode === 'batch' ? 'Drop images to add them to the batch' : 'Drop an image to analyze it'}</p>
+                    </div>
+                 )}
+
+                 {preparingInput && (
+                    <div className="absolute top-3 left-3 z-20 flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-900/80 text-xs text-slate-200">
+                        <Spinner /> Preparing image...
+                    </div>
+                 )}
+
                  {status === AppStatus.LOADING_MODEL && (
                     <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-slate-900/80 backdrop-blur-sm">
                         <div className="relative">
@@ -351,65 +942,332 @@ const RobustDetector: React.FC = () => {
                              <div className="w-16 h-16 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin absolute top-0 left-0"></div>
                         </div>
                         <p className="mt-6 text-lg font-medium text-white animate-pulse">Initializing Neural Network</p>
-                        <p className="text-sm text-slate-500 mt-2">{progress || "Loading model parameters..."}</p>
+                        <p className="text-sm text-slate-500 mt-2">{progress || `Loading model parameters (~${model.sizeMB} MB)...`}</p>
                     </div>
                  )}
 
-                 {!imageSrc && status === AppStatus.READY && (
+                 {status === AppStatus.ERROR && loadError && (
+                    <div className="p-10 max-w-lg w-full">
+                        <h3 className="text-xl font-semibold text-red-300 text-center mb-4">Could not load {model.name}</h3>
+                        <ErrorNotice error={loadError} actions={recoveryActions(loadError, 'load')} onAction={handleRecovery} />
+                        <p className="text-sm text-slate-500 mt-3 text-center">The model source can be changed under Offline.</p>
+                    </div>
+                 )}
+
+                 {mode === 'live' && status !== AppStatus.LOADING_MODEL && (
+                    <LiveDetector clientRef={clientRef} options={detectOptions} filters={filters} zones={zones} onSnapshot={handleSnapshot} />
+                 )}
+
+                 {mode === 'video' && status !== AppStatus.LOADING_MODEL && (
+                    <VideoAnalyzer clientRef={clientRef} options={detectOptions} filters={filters} zones={zones} />
+                 )}
+
+                 {mode === 'batch' && status !== AppStatus.LOADING_MODEL && (
+                    <BatchPanel batch={batch} items={batchItems} onOpen={handleOpenBatchItem} disabled={status === AppStatus.ERROR} />
+                 )}
+
+                 {mode === 'image' && !imageSrc && status === AppStatus.READY && (
                     <div className="text-center p-10">
                         <div className="w-20 h-20 bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-4 shadow-inner">
                             <svg className="w-10 h-10 text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"></path></svg>
                         </div>
                         <h3 className="text-xl font-semibold text-slate-200">Ready to Detect</h3>
-                        <p className="text-slate-500 mt-2 max-w-sm mx-auto">Upload a photo or use our sample image to see the browser-based Transformer model in action.</p>
+                        <p className="text-slate-500 mt-2 max-w-sm mx-auto">Upload, drop or paste a photo, or use our sample image to see the browser-based Transformer model in action.</p>
                     </div>
                  )}
 
-                 {imageSrc && (
+                 {mode === 'image' && imageSrc && (
                     <div className="relative inline-block max-w-full">
-                        <img src={imageSrc} alt="Target" className="max-w-full max-h-[70vh] block rounded-lg" />
+                        <img
+                          src={imageSrc}
+                          alt={imageName}
+                          draggable={false}
+                          className="max-w-full max-h-[70vh] block rounded-lg"
+                          onLoad={(e) => {
+                              const img = e.currentTarget;
+                              setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+                          }}
+                        />
+
+                        {!isEditing && <MaskLayer masks={visibleMasks} />}
                         
-                        {/* Bounding Boxes */}
-                        {detections.map((det, i) => {
-                            const { box, label, score } = det;
-                            // Using percentage:true allows us to use percentages directly
+                        {/* Bounding Boxes: a single tab stop, arrow keys move between them */}
+                        {!isEditing && detections.length > 0 && (
+                            <div role="group" aria-label={`${detections.length} detected ${detections.length === 1 ? 'object' : 'objects'}, use arrow keys to move between them`} className="absolute inset-0 pointer-events-none">
+                                {detections.map((det, i) => {
+                                    const { box, label, score } = det;
+                                    // When evaluating, color by outcome instead of label: TP solid, FP dashed
+                                    const outcome = currentMatch?.outcomes[i];
+                                    const color = outcome ? EVAL_COLORS[outcome] : labelColor(label);
+                                    // Using percentage:true allows us to use percentages directly
+                                    return (
+                                        <div
+                                            key={i}
+                                            ref={(el) => { boxRefs.current[i] = el; }}
+                                            role="img"
+                                            aria-roledescription="detection"
+                                            aria-label={describeDetection(det)}
+                                            tabIndex={i === (activeBox ?? 0) ? 0 : -1}
+                                            onFocus={() => setFocusedBox(i)}
+                                            onKeyDown={(e) => handleBoxKeyDown(e, i)}
+                                            className={`absolute border-2 box-border group cursor-help pointer-events-auto outline-none ${outcome === 'fp' ? 'border-dashed' : ''} ${i === activeBox ? 'ring-2 ring-white z-10' : ''}`}
+                                            style={{
+                                                left: `${box.xmin * 100}%`,
+                                                top: `${box.ymin * 100}%`,
+                                                width: `${(box.xmax - box.xmin) * 100}%`,
+                                                height: `${(box.ymax - box.ymin) * 100}%`,
+                                                borderColor: color,
+                                                backgroundColor: outcome ? 'transparent' : labelColor(label, 0.1),
+                                            }}
+                                        >
+                                            <div 
+                                                className="absolute -top-8 left-[-2px] px-3 py-1 rounded-md text-xs font-bold text-white shadow-lg whitespace-nowrap transition-all z-10"
+                                                style={{
+                                                    backgroundColor: color
+                                                }}
+                                            >
+                                                {label} <span className="opacity-80 font-normal">{det.edited ? 'edited' : `${(score * 100).toFixed(1)}%`}</span>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {tileGrid.map((box, i) => (
+                            <div
+                                key={`tile-${i}`}
+                                className="absolute border border-dashed border-white/40 pointer-events-none"
+                                style={{
+                                    left: `${box.xmin * 100}%`,
+                                    top: `${box.ymin * 100}%`,
+                                    width: `${(box.xmax - box.xmin) * 100}%`,
+                                    height: `${(box.ymax - box.ymin) * 100}%`,
+                                }}
+                            />
+                        ))}
+
+                        {status === AppStatus.ANALYZING && tileProgress && (
+                            <div className="absolute top-2 right-2 px-3 py-1 rounded-md bg-slate-900/80 text-xs font-mono text-slate-200">
+                                tile {tileProgress.done} / {tileProgress.total}
+                            </div>
+                        )}
+
+                        {/* Ground-truth boxes no detection matched */}
+                        {currentMatch && currentGroundTruth && currentMatch.missed.map((g) => {
+                            const { box, label } = currentGroundTruth[g];
                             return (
                                 <div
-                                    key={i}
-                                    className="absolute border-2 box-border group cursor-help"
+                                    key={`missed-${g}`}
+                                    className="absolute border-2 border-dotted box-border pointer-events-none"
                                     style={{
                                         left: `${box.xmin * 100}%`,
                                         top: `${box.ymin * 100}%`,
                                         width: `${(box.xmax - box.xmin) * 100}%`,
                                         height: `${(box.ymax - box.ymin) * 100}%`,
-                                        borderColor: `hsl(${(label.length * 50) % 360}, 80%, 60%)`,
-                                        backgroundColor: `hsla(${(label.length * 50) % 360}, 80%, 60%, 0.1)`,
+                                        borderColor: EVAL_COLORS.missed,
                                     }}
                                 >
-                                    <div 
-                                        className="absolute -top-8 left-[-2px] px-3 py-1 rounded-md text-xs font-bold text-white shadow-lg whitespace-nowrap transition-all z-10"
-                                        style={{
-                                            backgroundColor: `hsl(${(label.length * 50) % 360}, 80%, 60%)`
-                                        }}
-                                    >
-                                        {label} <span className="opacity-80 font-normal">{(score * 100).toFixed(1)}%</span>
+                                    <div className="absolute bottom-0 left-0 px-2 py-0.5 text-[10px] font-bold text-slate-900 whitespace-nowrap" style={{ backgroundColor: EVAL_COLORS.missed }}>
+                                        missed {label}
                                     </div>
                                 </div>
                             );
                         })}
+
+                        {isEditing && (
+                            <AnnotationLayer
+                                detections={detections}
+                                selected={selected}
+                                onSelect={setSelectedBox}
+                                onCommit={editor.commit}
+                                onUndo={editor.undo}
+                                onRedo={editor.redo}
+                                drawLabel={drawLabel || exportLabels[0] || 'object'}
+                            />
+                        )}
+
+                        <ZoneOverlay zones={zones} sample={imageZoneSample} />
                     </div>
                  )}
               </div>
               
+              {(mode === 'image' || mode === 'batch') && status !== AppStatus.LOADING_MODEL && (
+                  <div className="mt-4 flex items-center justify-between gap-4">
+                      <p className="text-xs text-slate-500 font-mono">
+                          {mode === 'image' && run && (
+                              <>{getModelEntry(run.modelId)?.name ?? run.modelId} · {run.queries ? `queries: ${formatQueries(run.queries)}` : `threshold ≥ ${run.threshold.toFixed(2)}`}{run.runtime && ` · ${describeRuntime(run.runtime)}`}{run.tiling && ` · tiles ${run.tiling.tileSize}px, ${Math.round(run.tiling.overlap * 100)}% overlap, ${run.tiling.merge.toUpperCase()}`}{imageMapping && describeMapping(imageMapping) && ` · ${describeMapping(imageMapping)}`}</>
+                          )}
+                      </p>
+                      <div className="flex items-center gap-2">
+                          {mode === 'image' && (
+                              <button
+                                  onClick={handleToggleEditing}
+                                  disabled={!hasCurrentResult}
+                                  className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors border disabled:opacity-50 disabled:cursor-not-allowed ${isEditing ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                              >
+                                  Edit
+                              </button>
+                          )}
+                          <button
+                              onClick={() => setShowFilters((v) => !v)}
+                              className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors border ${showFilters ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                          >
+                              Filters
+                          </button>
+                          <button
+                              onClick={() => setShowTiling((v) => !v)}
+                              disabled={segmentation}
+                              title={segmentation ? 'Segmentation models always analyze the whole image' : undefined}
+                              className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors border disabled:opacity-50 disabled:cursor-not-allowed ${showTiling && !segmentation ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                          >
+                              Tiles
+                          </button>
+                          <button
+                              onClick={() => setShowRedaction((v) => !v)}
+                              className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors border ${showRedaction ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                          >
+                              Redact
+                          </button>
+                          <button
+                              onClick={() => setShowEvaluation((v) => !v)}
+                              className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors border ${showEvaluation ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                          >
+                              Evaluate
+                          </button>
+                          <ExportMenu current={exportCurrent} batch={exportBatch} modelLabels={exportLabels} />
+                      </div>
+                  </div>
+              )}
+
+              {isEditing && (
+                  <AnnotationToolbar
+                      selected={selected !== null ? detections[selected] : null}
+                      selectedIndex={selected}
+                      labels={labelSuggestions}
+                      editedCount={detections.filter((d) => d.edited).length}
+                      total={detections.length}
+                      canUndo={editor.canUndo}
+                      canRedo={editor.canRedo}
+                      onRelabel={handleRelabel}
+                      onDelete={handleDeleteBox}
+                      onUndo={editor.undo}
+                      onRedo={editor.redo}
+                      onDiscard={() => resetAnnotations()}
+                      onDone={handleToggleEditing}
+                  />
+              )}
+
+              {showFilters && (mode === 'image' || mode === 'batch') && (
+                  <PostProcessPanel
+                      settings={postProcess}
+                      onChange={setPostProcess}
+                      labels={filterLabels}
+                      rawCount={rawDetections.length}
+                      shownCount={modelDetections.length}
+                      perQueryThresholds={!!viewFilters.queries}
+                  />
+              )}
+
+              {showTiling && !segmentation && (mode === 'image' || mode === 'batch') && (
+                  <TilingPanel
+                      settings={tiling}
+                      onChange={setTiling}
+                      showGrid={showTileGrid}
+                      onShowGridChange={setShowTileGrid}
+                      passes={mode === 'image' ? tilePasses : null}
+                      onApply={() => imageSrc && runDetection(imageSrc)}
+                      canApply={mode === 'image' && !!imageSrc && status === AppStatus.READY}
+                  />
+              )}
+
+              {showRedaction && (mode === 'image' || mode === 'batch') && (
+                  <RedactionPanel
+                      settings={redaction}
+                      onChange={setRedaction}
+                      current={exportCurrent}
+                      batch={exportBatch}
+                  />
+              )}
+
+              {showEvaluation && (mode === 'image' || mode === 'batch') && (
+                  <EvaluationPanel
+                      report={evaluationReport}
+                      annotatedImages={groundTruth.size}
+                      warnings={groundTruthWarnings}
+                      iouThreshold={evalIou}
+                      onIouThresholdChange={setEvalIou}
+                      onLoadFiles={handleLoadGroundTruth}
+                      onClear={handleClearGroundTruth}
+                  />
+              )}
+
               {/* Results Summary */}
-              {detections.length > 0 && (
-                  <div className="mt-6 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
-                     {detections.map((det, i) => (
-                         <div key={i} className="bg-slate-700/30 border border-slate-700 rounded-lg p-3 flex items-center justify-between">
-                            <span className="text-slate-200 font-medium capitalize">{det.label}</span>
-                            <span className="text-xs text-indigo-400 font-mono font-bold">{(det.score * 100).toFixed(0)}%</span>
-                         </div>
-                     ))}
+              {hasCurrentResult && (
+                  <div className="mt-6 flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-xl bg-slate-900/60 border border-slate-700">
+                      <p className="text-sm text-slate-300"><span className="text-slate-500">Scene: </span>{sceneSummary}</p>
+                      {speechSupported && (
+                          <div className="flex items-center gap-3">
+                              <button
+                                  onClick={() => announcer.speak(sceneSummary)}
+                                  className="px-3 py-1.5 rounded-lg bg-slate-700/50 text-slate-200 text-sm border border-slate-600 hover:bg-slate-700"
+                              >
+                                  Read aloud
+                              </button>
+                              <label className="flex items-center gap-2 text-xs text-slate-400">
+                                  <input type="checkbox" checked={announcer.speech} onChange={(e) => announcer.setSpeech(e.target.checked)} className="accent-indigo-500" />
+                                  Read new results
+                              </label>
+                          </div>
+                      )}
+                  </div>
+              )}
+
+              {mode === 'image' && detections.length > 0 && (
+                  <div className="mt-3 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                     {detections.map((det, i) => {
+                         const current = isEditing ? i === selected : i === activeBox;
+                         return (
+                             <div
+                                key={i}
+                                className={`bg-slate-700/30 border rounded-lg flex items-center ${current ? 'border-indigo-500' : 'border-slate-700'}`}
+                             >
+                                {/* Selects the box while editing, otherwise moves focus to it on the image */}
+                                <button
+                                    type="button"
+                                    onClick={() => (isEditing ? setSelectedBox(i) : focusBox(i))}
+                                    aria-current={current ? 'true' : undefined}
+                                    className="flex-1 min-w-0 p-3 flex items-center justify-between gap-2 text-left rounded-lg focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-400"
+                                >
+                                    <span className="min-w-0">
+                                        <span className="block text-slate-200 font-medium capitalize truncate">{det.label}</span>
+                                        {hasMask(det) && (
+                                            <span className="block text-[11px] text-slate-500 font-mono" title="Mask area and share of the image">
+                                                {formatArea(det.area)} · {(maskCoverage(det) * 100).toFixed(1)}%
+                                            </span>
+                                        )}
+                                        <span className="sr-only">, {describePosition(det.box)}</span>
+                                    </span>
+                                    <span className="text-xs text-indigo-400 font-mono font-bold">{det.edited ? 'edited' : `${(det.score * 100).toFixed(0)}%`}</span>
+                                </button>
+                                {/* Toggles every mask with this label, like a legend entry */}
+                                {hasMask(det) && !det.edited && (
+                                    <button
+                                        type="button"
+                                        onClick={() => toggleMaskLabel(det.label)}
+                                        aria-pressed={!hiddenMaskLabels.includes(det.label)}
+                                        aria-label={`Show ${det.label} masks`}
+                                        title={hiddenMaskLabels.includes(det.label) ? `Show ${det.label} masks` : `Hide ${det.label} masks`}
+                                        className="w-4 h-4 mr-3 shrink-0 rounded-sm"
+                                        style={{
+                                            backgroundColor: hiddenMaskLabels.includes(det.label) ? 'transparent' : labelColor(det.label),
+                                            border: `1px solid ${labelColor(det.label)}`,
+                                        }}
+                                    />
+                                )}
+                             </div>
+                         );
+                     })}
                   </div>
               )}
         </div>
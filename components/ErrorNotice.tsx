@@ -0,0 +1,51 @@
+import React from 'react';
+import { AppError, ERROR_INFO, RECOVERY_LABELS, RecoveryAction } from '../utils/errors';
+
+interface ErrorNoticeProps {
+  error: AppError;
+  // The recovery actions that make sense where the error is shown, in display order
+  actions: RecoveryAction[];
+  onAction: (action: RecoveryAction) => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+/**
+ * Names what went wrong, says what can be done about it and offers those actions as buttons.
+ * The raw error text stays available for bug reports but folded away.
+ */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, actions, onAction, onDismiss, className = '' }) => {
+  const info = ERROR_INFO[error.kind];
+  return (
+    <div role="alert" className={`p-4 rounded-2xl bg-red-950/40 border border-red-900/60 text-left ${className}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="text-base font-semibold text-red-200">{info.title}</h3>
+          <p className="text-sm text-slate-300 mt-1 break-words">{error.message}</p>
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className="px-2 py-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" aria-label="Dismiss error">✕</button>
+        )}
+      </div>
+      {error.detail && error.detail !== error.message && (
+        <details className="mt-2 text-xs text-slate-500">
+          <summary className="cursor-pointer">Technical details</summary>
+          <p className="mt-1 font-mono break-words">{error.detail}</p>
+        </details>
+      )}
+      {actions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {actions.map((action) => (
+            <button
+              key={action}
+              onClick={() => onAction(action)}
+              className="px-3 py-1.5 rounded-lg bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors border border-slate-600"
+            >
+              {RECOVERY_LABELS[action]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
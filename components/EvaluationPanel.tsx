@@ -0,0 +1,143 @@
+import React, { useRef } from 'react';
+import { EvaluationReport } from '../utils/evaluation';
+
+interface EvaluationPanelProps {
+  report: EvaluationReport | null;
+  annotatedImages: number;
+  warnings: string[];
+  iouThreshold: number;
+  onIouThresholdChange: (value: number) => void;
+  onLoadFiles: (files: File[]) => void;
+  onClear: () => void;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}`;
+
+export const EvaluationPanel: React.FC<EvaluationPanelProps> = ({
+  report,
+  annotatedImages,
+  warnings,
+  iouThreshold,
+  onIouThresholdChange,
+  onLoadFiles,
+  onClear,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="mt-6 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">Evaluation</h3>
+          <p className="text-xs text-slate-500">
+            Load COCO JSON or YOLO txt (+ classes.txt) annotations. Files pair with images by file name.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            IoU
+            <input
+              type="range"
+              min={0.1}
+              max={0.95}
+              step={0.05}
+              value={iouThreshold}
+              onChange={(e) => onIouThresholdChange(Number(e.target.value))}
+              className="w-28 accent-indigo-500"
+            />
+            <span className="w-10 font-mono text-xs">{iouThreshold.toFixed(2)}</span>
+          </label>
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-500 transition-colors"
+          >
+            Load ground truth
+          </button>
+          {annotatedImages > 0 && (
+            <button onClick={onClear} className="px-4 py-2 rounded-xl bg-slate-700/50 text-slate-200 text-sm border border-slate-600 hover:bg-slate-700">
+              Clear
+            </button>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            className="hidden"
+            accept=".json,.txt,.names"
+            multiple
+            onChange={(e) => {
+              if (e.target.files) onLoadFiles(Array.from(e.target.files));
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <ul className="mt-3 text-xs text-amber-400 space-y-0.5">
+          {warnings.map((w) => <li key={w}>{w}</li>)}
+        </ul>
+      )}
+
+      {annotatedImages > 0 && !report && (
+        <p className="mt-4 text-sm text-slate-500">
+          Ground truth loaded for {annotatedImages} image(s). Analyze a matching image (or batch) to compare.
+        </p>
+      )}
+
+      {report && (
+        <>
+          <div className="mt-4 flex flex-wrap gap-3">
+            {[
+              ['mAP@0.5', report.map50],
+              ['mAP@0.5:0.95', report.map5095],
+            ].map(([name, value]) => (
+              <div key={name as string} className="px-4 py-2 rounded-lg bg-slate-700/30 border border-slate-700">
+                <div className="text-xs text-slate-400">{name}</div>
+                <div className="text-xl font-mono font-bold text-indigo-300">{pct(value as number)}</div>
+              </div>
+            ))}
+            <div className="px-4 py-2 rounded-lg bg-slate-700/30 border border-slate-700">
+              <div className="text-xs text-slate-400">Images</div>
+              <div className="text-xl font-mono font-bold text-slate-200">{report.images}</div>
+            </div>
+          </div>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400 border-b border-slate-700">
+                  <th className="py-2 pr-4">Class</th>
+                  <th className="py-2 pr-4 text-right">GT</th>
+                  <th className="py-2 pr-4 text-right">Det</th>
+                  <th className="py-2 pr-4 text-right">Precision</th>
+                  <th className="py-2 pr-4 text-right">Recall</th>
+                  <th className="py-2 pr-4 text-right">AP@{report.iouThreshold.toFixed(2)}</th>
+                  <th className="py-2 pr-4 text-right">AP@0.5:0.95</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-300">
+                {report.classes.map((c) => (
+                  <tr key={c.label} className="border-b border-slate-800">
+                    <td className="py-1.5 pr-4 font-sans capitalize">{c.label}</td>
+                    <td className="py-1.5 pr-4 text-right">{c.groundTruth}</td>
+                    <td className="py-1.5 pr-4 text-right">{c.detections}</td>
+                    <td className="py-1.5 pr-4 text-right">{pct(c.precision)}</td>
+                    <td className="py-1.5 pr-4 text-right">{pct(c.recall)}</td>
+                    <td className="py-1.5 pr-4 text-right">{pct(c.ap)}</td>
+                    <td className="py-1.5 pr-4 text-right">{pct(c.ap5095)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-400">
+            <span className="flex items-center gap-1.5"><span className="w-4 h-3 border-2 border-solid border-emerald-400" /> true positive</span>
+            <span className="flex items-center gap-1.5"><span className="w-4 h-3 border-2 border-dashed border-rose-400" /> false positive</span>
+            <span className="flex items-center gap-1.5"><span className="w-4 h-3 border-2 border-dotted border-amber-400" /> missed ground truth</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
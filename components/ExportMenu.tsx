@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import {
+  ExportImage,
+  buildCategories,
+  exportFileName,
+  toCocoJson,
+  toCsv,
+  toPascalVoc,
+  toYoloClasses,
+  toYoloTxt,
+} from '../utils/exporters';
+import { renderAnnotatedImage } from '../utils/overlay';
+import { createZip, uniqueName, ZipEntry } from '../utils/zip';
+import { downloadBlob, downloadText } from '../utils/download';
+
+export type ExportSource = ExportImage & { src: string };
+
+type ExportFormat = 'coco' | 'voc' | 'yolo' | 'csv' | 'png';
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'coco', label: 'COCO detection JSON' },
+  { id: 'voc', label: 'Pascal VOC XML' },
+  { id: 'yolo', label: 'YOLO txt' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'png', label: 'Annotated PNG' },
+];
+
+interface ExportMenuProps {
+  current: ExportSource | null;
+  batch: ExportSource[];
+  modelLabels: string[];
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ current, batch, modelLabels }) => {
+  const [scope, setScope] = useState<'current' | 'batch'>(current ? 'current' : 'batch');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const effectiveScope = !current ? 'batch' : batch.length === 0 ? 'current' : scope;
+  const images: ExportSource[] = effectiveScope === 'batch' ? batch : current ? [current] : [];
+  if (images.length === 0) return null;
+
+  const runExport = async (format: ExportFormat) => {
+    const categories = buildCategories(modelLabels, images);
+    const single = images.length === 1 ? images[0] : null;
+    const used = new Set<string>();
+
+    switch (format) {
+      case 'coco':
+        downloadText(toCocoJson(images, categories), single ? exportFileName(single, 'coco.json') : 'detections.coco.json', 'application/json');
+        break;
+      case 'csv':
+        downloadText(toCsv(images), single ? exportFileName(single, 'csv') : 'detections.csv', 'text/csv');
+        break;
+      case 'voc':
+        if (single) {
+          downloadText(toPascalVoc(single), exportFileName(single, 'xml'), 'application/xml');
+        } else {
+          const entries = images.map((image) => ({ name: uniqueName(exportFileName(image, 'xml'), used), data: toPascalVoc(image) }));
+          downloadBlob(createZip(entries), 'detections-voc.zip');
+        }
+        break;
+      case 'yolo': {
+        // YOLO needs the class list next to the label files, so it always ships as a zip
+        const entries: ZipEntry[] = images.map((image) => ({
+          name: `labels/${uniqueName(exportFileName(image, 'txt'), used)}`,
+          data: toYoloTxt(image, categories),
+        }));
+        entries.push({ name: 'classes.txt', data: toYoloClasses(categories) });
+        downloadBlob(createZip(entries), single ? exportFileName(single, 'yolo.zip') : 'detections-yolo.zip');
+        break;
+      }
+      case 'png':
+        if (single) {
+          downloadBlob(await renderAnnotatedImage(single.src, single.detections), exportFileName(single, 'annotated.png'));
+        } else {
+          const entries: ZipEntry[] = [];
+          // Sequential on purpose: full-resolution canvases are large
+          for (const image of images) {
+            const blob = await renderAnnotatedImage(image.src, image.detections);
+            entries.push({ name: uniqueName(exportFileName(image, 'png'), used), data: new Uint8Array(await blob.arrayBuffer()) });
+          }
+          downloadBlob(createZip(entries), 'detections-annotated.zip');
+        }
+        break;
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await runExport(format);
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <details className="relative">
+      <summary className="list-none cursor-pointer px-4 py-2 rounded-xl bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors border border-slate-600 select-none">
+        {busy ? 'Exporting…' : 'Export ▾'}
+      </summary>
+      <div className="absolute right-0 mt-2 w-64 z-30 p-2 rounded-xl bg-slate-800 border border-slate-600 shadow-2xl">
+        {current && batch.length > 0 && (
+          <div className="flex p-1 mb-2 rounded-lg bg-slate-900/60 text-xs">
+            <button onClick={() => setScope('current')} className={`flex-1 py-1 rounded-md ${effectiveScope === 'current' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>
+              This image
+            </button>
+            <button onClick={() => setScope('batch')} className={`flex-1 py-1 rounded-md ${effectiveScope === 'batch' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>
+              Batch ({batch.length})
+            </button>
+          </div>
+        )}
+        {FORMATS.map((format) => (
+          <button
+            key={format.id}
+            onClick={() => handleExport(format.id)}
+            disabled={busy}
+            className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-200 hover:bg-slate-700 disabled:opacity-50"
+          >
+            {format.label}
+          </button>
+        ))}
+        {error && <p className="px-3 py-1 text-xs text-red-400">{error}</p>}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { HistoryEntry } from '../types';
+import { DetectionHistory } from '../hooks/useDetectionHistory';
+import { EMPTY_HISTORY_QUERY, HistoryQuery, filterHistory } from '../utils/historyStore';
+import { formatBytes } from '../utils/modelCache';
+import { formatQueries } from '../utils/queries';
+import { getModelEntry } from '../modelRegistry';
+
+interface HistorySidebarProps {
+  history: DetectionHistory;
+  activeId: string | null;
+  onOpen: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const summarizeLabels = (entry: HistoryEntry) => {
+  const counts = new Map<string, number>();
+  entry.detections.forEach((det) => counts.set(det.label, (counts.get(det.label) ?? 0) + 1));
+  return Array.from(counts, ([label, n]) => (n > 1 ? `${n} ${label}` : label)).join(', ') || 'nothing detected';
+};
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({ history, activeId, onOpen, onClose }) => {
+  const [query, setQuery] = useState<HistoryQuery>(EMPTY_HISTORY_QUERY);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const update = (patch: Partial<HistoryQuery>) => setQuery((prev) => ({ ...prev, ...patch }));
+
+  const shown = useMemo(() => filterHistory(history.entries, query), [history.entries, query]);
+  const thumbnails = useMemo(() => new Map(history.entries.map((entry) => [entry.id, URL.createObjectURL(entry.thumbnail)])), [history.entries]);
+  useEffect(() => () => thumbnails.forEach((url) => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const historyBytes = history.entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  const { usage, quota } = history.storage ?? {};
+  const inputClass = 'w-full px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm';
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-40 w-full sm:w-96 flex flex-col bg-slate-900 border-l border-slate-700 shadow-2xl">
+      <div className="flex items-center justify-between p-4 border-b border-slate-800">
+        <h3 className="text-lg font-semibold text-slate-200">History</h3>
+        <button onClick={onClose} className="px-3 py-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" aria-label="Close history">✕</button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-slate-800">
+        <input value={query.label} onChange={(e) => update({ label: e.target.value })} placeholder="Search label, e.g. dog" className={inputClass} />
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <input type="date" value={query.from} onChange={(e) => update({ from: e.target.value })} className={inputClass} aria-label="From date" />
+          <span>to</span>
+          <input type="date" value={query.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} aria-label="To date" />
+        </div>
+        <label className="flex items-center gap-3 text-xs text-slate-400">
+          <span className="w-20">Min score</span>
+          <input type="range" min={0} max={1} step={0.05} value={query.minScore} onChange={(e) => update({ minScore: Number(e.target.value) })} className="flex-1 accent-indigo-500" />
+          <span className="w-10 text-right font-mono text-slate-300">{query.minScore.toFixed(2)}</span>
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {shown.length === 0 && (
+          <p className="p-4 text-sm text-slate-500 text-center">
+            {history.entries.length === 0 ? 'Analyses you run are saved here, on this device only.' : 'No entries match the search.'}
+          </p>
+        )}
+        {shown.map((entry) => {
+          const model = getModelEntry(entry.run.modelId)?.name ?? entry.run.modelId;
+          return (
+            <div key={entry.id} className={`flex gap-3 p-2 rounded-xl ${entry.id === activeId ? 'bg-indigo-600/20' : 'hover:bg-slate-800'}`}>
+              <button onClick={() => onOpen(entry)} className="shrink-0" title="Reopen without running the model">
+                <img src={thumbnails.get(entry.id)} alt="" className="w-20 h-20 object-cover rounded-lg bg-slate-800" />
+              </button>
+              <div className="min-w-0 flex-1 text-xs">
+                <button onClick={() => onOpen(entry)} className="block max-w-full truncate text-sm font-medium text-slate-200 hover:text-indigo-300" title={entry.name}>
+                  {entry.name}
+                </button>
+                <p className="text-slate-500">{new Date(entry.timestamp).toLocaleString()}</p>
+                <p className="text-slate-400 truncate" title={summarizeLabels(entry)}>{summarizeLabels(entry)}</p>
+                <p className="text-slate-500 truncate">
+                  {model} · {entry.run.queries ? formatQueries(entry.run.queries) : `≥ ${entry.postProcess.threshold.toFixed(2)}`}
+                </p>
+              </div>
+              <button onClick={() => history.remove(entry.id)} className="self-start px-2 py-1 rounded-lg text-xs text-slate-500 hover:text-red-300 hover:bg-slate-800" aria-label={`Delete ${entry.name}`}>
+                Delete
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-4 border-t border-slate-800 space-y-2">
+        {history.error && <p className="text-xs text-red-400">{history.error}</p>}
+        <div className="flex justify-between text-xs text-slate-400">
+          <span>{history.entries.length} entries · {formatBytes(historyBytes)}</span>
+          {quota ? <span>{formatBytes(usage ?? 0)} of {formatBytes(quota)} used</span> : null}
+        </div>
+        {quota ? (
+          <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+            <div className="h-full bg-indigo-500" style={{ width: `${Math.min(100, ((usage ?? 0) / quota) * 100)}%` }} />
+          </div>
+        ) : null}
+        {confirmClear ? (
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-slate-300 flex-1">Delete all {history.entries.length} entries?</span>
+            <button onClick={() => { history.clear(); setConfirmClear(false); }} className="px-3 py-1.5 rounded-lg bg-red-600 text-white font-medium hover:bg-red-500">Delete all</button>
+            <button onClick={() => setConfirmClear(false)} className="px-3 py-1.5 rounded-lg bg-slate-700 text-slate-200">Cancel</button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirmClear(true)}
+            disabled={history.entries.length === 0}
+            className="w-full px-3 py-1.5 rounded-lg bg-slate-700/50 border border-slate-600 text-slate-200 text-sm hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear history
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ImageInputSettings, MAX_SIDE_OPTIONS } from '../utils/imageInput';
+
+interface ImageSourceBarProps {
+  settings: ImageInputSettings;
+  onSettingsChange: (settings: ImageInputSettings) => void;
+  onAnalyzeUrl: (url: string) => void;
+  disabled: boolean;
+}
+
+/**
+ * Image address field plus the size limit applied to every new image. Files can also be
+ * dropped on the display area or pasted with Ctrl+V.
+ */
+export const ImageSourceBar: React.FC<ImageSourceBarProps> = ({ settings, onSettingsChange, onAnalyzeUrl, disabled }) => {
+  const [url, setUrl] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (url.trim()) onAnalyzeUrl(url.trim());
+  };
+
+  return (
+    <div className="mb-4">
+      <form onSubmit={submit} className="flex flex-wrap items-center gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/photo.jpg"
+          aria-label="Image URL"
+          className="flex-1 min-w-[12rem] px-3 py-2 rounded-xl bg-slate-900/60 border border-slate-700 text-slate-200 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !url.trim()}
+          className="px-4 py-2 rounded-xl bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-slate-600"
+        >
+          Analyze URL
+        </button>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Max side
+          <select
+            value={settings.maxSide}
+            onChange={(e) => onSettingsChange({ ...settings, maxSide: Number(e.target.value) })}
+            className="px-2 py-2 rounded-xl bg-slate-800 border border-slate-600 text-slate-200 text-sm"
+          >
+            {MAX_SIDE_OPTIONS.map((side) => (
+              <option key={side} value={side}>{side === 0 ? 'Full size' : `${side} px`}</option>
+            ))}
+          </select>
+        </label>
+      </form>
+      <p className="mt-2 text-xs text-slate-500">Drop an image on the viewer or paste one with Ctrl+V.</p>
+    </div>
+  );
+};
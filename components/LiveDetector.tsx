@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { DetectionResult, DetectOptions, PostProcessSettings, TrackedDetection } from '../types';
+import { DetectorClient, DetectionCancelledError } from '../services/detectorClient';
+import { ZoneLayoutState } from '../hooks/useZoneLayout';
+import { ZoneOverlay } from './ZoneOverlay';
+import { ZoneCounters } from './ZoneCounters';
+import { drawDetections } from '../utils/overlay';
+import { applyPostProcessing } from '../utils/postprocess';
+import { Tracker, createTracker } from '../utils/tracker';
+import { trackCaption } from '../utils/trackTimeline';
+import { CounterSample, DEFAULT_EXIT_GRACE, DwellSummary, ZoneCounter, createZoneCounter } from '../utils/zoneCounter';
+import { layoutGeometryKey } from '../utils/zones';
+import {
+  StreamHandle,
+  listCameras,
+  openCamera,
+  createTestPatternStream,
+  createVideoFileStream,
+} from '../utils/mediaSources';
+
+const TEST_PATTERN_SOURCE = 'test-pattern';
+const VIDEO_FILE_SOURCE = 'video-file';
+const STATS_INTERVAL_MS = 500;
+// Live history kept for the CSV exports; counts and dwell still cover the whole stream
+const HISTORY_SECONDS = 10 * 60;
+const MAX_VISITS = 5000;
+
+interface LiveStats {
+  fps: number;
+  latencyMs: number;
+  skipped: number;
+}
+
+interface ZoneView {
+  sample: CounterSample | null;
+  dwell: Record<string, DwellSummary>;
+}
+
+interface LiveDetectorProps {
+  clientRef: React.RefObject<DetectorClient | null>;
+  options: DetectOptions;
+  filters: PostProcessSettings;
+  zones: ZoneLayoutState;
+  // Receives the frozen frame (data URL) together with the raw detections computed on exactly that frame
+  onSnapshot: (src: string, detections: DetectionResult[]) => void;
+}
+
+export const LiveDetector: React.FC<LiveDetectorProps> = ({ clientRef, options, filters, zones, onSnapshot }) => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [source, setSource] = useState<string>('');
+  const [running, setRunning] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [stats, setStats] = useState<LiveStats>({ fps: 0, latencyMs: 0, skipped: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const [zoneView, setZoneView] = useState<ZoneView>({ sample: null, dwell: {} });
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoFileInputRef = useRef<HTMLInputElement>(null);
+  // Off-screen copy of the frame handed to the model, so snapshots pair a frame with its own detections
+  const captureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const handleRef = useRef<StreamHandle | null>(null);
+  const pausedRef = useRef(false);
+  const inflightRef = useRef<Promise<void> | null>(null);
+  const inflightJobRef = useRef<number | null>(null);
+  const detectionsRef = useRef<DetectionResult[]>([]);
+  const counterRef = useRef({ frames: 0, skipped: 0, latencyMs: 0 });
+  // Read from the render loop without restarting it when the model or queries change
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  // Zone counting: frames are tracked only while a layout exists, timed from the stream start
+  const countingRef = useRef(!zones.isEmpty);
+  countingRef.current = !zones.isEmpty;
+  // Created on first use; the counter is replaced whenever the zone geometry changes
+  const trackerRef = useRef<Tracker | null>(null);
+  const trackedRef = useRef<TrackedDetection[]>([]);
+  const zoneCounterRef = useRef<ZoneCounter | null>(null);
+  const samplesRef = useRef<CounterSample[]>([]);
+  // Stream time excludes pauses, so a paused view does not add to dwell times
+  const streamStartRef = useRef(0);
+  const pausedTotalRef = useRef(0);
+  const pausedAtRef = useRef<number | null>(null);
+  const geometryKey = layoutGeometryKey(zones.layout);
+
+  const refreshCameras = useCallback(async () => {
+    try {
+      setCameras(await listCameras());
+    } catch (err) {
+      console.error('Failed to enumerate cameras:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCameras();
+  }, [refreshCameras]);
+
+  // Seconds of unpaused stream up to `at` (a performance.now() timestamp)
+  const streamTime = (at: number) => {
+    const until = pausedAtRef.current === null ? at : Math.min(at, pausedAtRef.current);
+    return Math.max(0, (until - streamStartRef.current - pausedTotalRef.current) / 1000);
+  };
+
+  const resetCounting = useCallback(() => {
+    trackerRef.current?.reset();
+    trackedRef.current = [];
+    zoneCounterRef.current?.reset();
+    samplesRef.current = [];
+    streamStartRef.current = performance.now();
+    pausedTotalRef.current = 0;
+    pausedAtRef.current = pausedRef.current ? streamStartRef.current : null;
+    setZoneView({ sample: null, dwell: {} });
+  }, []);
+
+  // Counts so far belong to the old shapes; renaming keeps them
+  useEffect(() => {
+    zoneCounterRef.current = createZoneCounter(zones.layout, DEFAULT_EXIT_GRACE, MAX_VISITS);
+    resetCounting();
+  }, [geometryKey, resetCounting]);
+
+  const stopStream = useCallback(() => {
+    if (inflightJobRef.current !== null) clientRef.current?.cancel(inflightJobRef.current);
+    handleRef.current?.stop();
+    handleRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    detectionsRef.current = [];
+    setRunning(false);
+    setPaused(false);
+    pausedRef.current = false;
+    pausedAtRef.current = null;
+  }, [clientRef]);
+
+  // Release the camera when leaving live mode
+  useEffect(() => stopStream, [stopStream]);
+
+  const startStream = useCallback(async (open: () => Promise<StreamHandle>) => {
+    stopStream();
+    setError(null);
+    try {
+      const handle = await open();
+      handleRef.current = handle;
+      const video = videoRef.current!;
+      video.srcObject = handle.stream;
+      await video.play();
+      counterRef.current = { frames: 0, skipped: 0, latencyMs: 0 };
+      resetCounting();
+      setRunning(true);
+      // Device labels are only exposed once permission has been granted
+      refreshCameras();
+    } catch (err) {
+      console.error('Failed to start stream:', err);
+      stopStream();
+      setError(err instanceof Error ? err.message : 'Could not start the video source.');
+    }
+  }, [stopStream, refreshCameras, resetCounting]);
+
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    if (value === VIDEO_FILE_SOURCE) {
+      videoFileInputRef.current?.click();
+    } else if (value === TEST_PATTERN_SOURCE) {
+      startStream(async () => createTestPatternStream());
+    } else if (value) {
+      startStream(() => openCamera(value));
+    }
+  };
+
+  const handleVideoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    startStream(() => createVideoFileStream(file));
+  };
+
+  // Render loop: draws every video frame with the latest boxes, and starts a new inference
+  // only when the previous one has finished. Frames arriving in between are skipped, never queued.
+  useEffect(() => {
+    if (!running) return;
+    let raf = 0;
+
+    const tick = () => {
+      raf = requestAnimationFrame(tick);
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || pausedRef.current || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+      const { videoWidth: width, videoHeight: height } = video;
+      if (!width || !height) return;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(video, 0, 0, width, height);
+      if (countingRef.current) drawDetections(ctx, trackedRef.current, width, height, trackCaption);
+      else drawDetections(ctx, applyPostProcessing(detectionsRef.current, filtersRef.current), width, height);
+      counterRef.current.frames++;
+
+      const client = clientRef.current;
+      if (!client) return;
+      if (inflightRef.current) {
+        counterRef.current.skipped++;
+        return;
+      }
+
+      const capture = captureCanvasRef.current ?? document.createElement('canvas');
+      captureCanvasRef.current = capture;
+      capture.width = width;
+      capture.height = height;
+      capture.getContext('2d')!.drawImage(video, 0, 0, width, height);
+
+      const startedAt = performance.now();
+      inflightRef.current = createImageBitmap(capture)
+        .then((bitmap) => {
+          const job = client.detect(bitmap, optionsRef.current);
+          inflightJobRef.current = job.id;
+          return job.result;
+        })
+        .then((results) => {
+          detectionsRef.current = results;
+          counterRef.current.latencyMs = performance.now() - startedAt;
+          const zoneCounter = zoneCounterRef.current;
+          if (countingRef.current && zoneCounter) {
+            const tracker = (trackerRef.current ??= createTracker());
+            trackedRef.current = tracker.update(applyPostProcessing(results, filtersRef.current));
+            const time = streamTime(startedAt);
+            const samples = samplesRef.current;
+            samples.push(zoneCounter.update(time, trackedRef.current));
+            while (samples[0].time < time - HISTORY_SECONDS) samples.shift();
+          }
+        })
+        .catch((err) => {
+          if (!(err instanceof DetectionCancelledError)) console.error('Live detection error:', err);
+        })
+        .finally(() => {
+          inflightRef.current = null;
+          inflightJobRef.current = null;
+        });
+    };
+
+    let lastStatsAt = performance.now();
+    const statsTimer = window.setInterval(() => {
+      const now = performance.now();
+      const counters = counterRef.current;
+      setStats({
+        fps: (counters.frames * 1000) / (now - lastStatsAt),
+        latencyMs: counters.latencyMs,
+        skipped: counters.skipped,
+      });
+      counters.frames = 0;
+      lastStatsAt = now;
+      const zoneCounter = zoneCounterRef.current;
+      if (countingRef.current && zoneCounter) {
+        const samples = samplesRef.current;
+        setZoneView({
+          sample: samples[samples.length - 1] ?? null,
+          dwell: zoneCounter.dwell(streamTime(now)),
+        });
+      }
+    }, STATS_INTERVAL_MS);
+
+    raf = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(raf);
+      window.clearInterval(statsTimer);
+    };
+  }, [running, clientRef]);
+
+  const pause = () => {
+    if (!pausedRef.current) pausedAtRef.current = performance.now();
+    pausedRef.current = true;
+    setPaused(true);
+    videoRef.current?.pause();
+  };
+
+  const resume = () => {
+    if (pausedAtRef.current !== null) pausedTotalRef.current += performance.now() - pausedAtRef.current;
+    pausedAtRef.current = null;
+    pausedRef.current = false;
+    setPaused(false);
+    videoRef.current?.play();
+  };
+
+  const snapshot = async () => {
+    pause();
+    // Wait for the frame currently being analyzed so the snapshot and its boxes belong together
+    if (inflightRef.current) await inflightRef.current;
+    const capture = captureCanvasRef.current;
+    if (!capture) return;
+    onSnapshot(capture.toDataURL('image/jpeg', 0.92), detectionsRef.current);
+  };
+
+  const buttonClass = 'px-4 py-2 rounded-xl bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-slate-600';
+
+  return (
+    <div className="w-full h-full flex flex-col items-center gap-4 p-4">
+      <div className="w-full flex flex-wrap items-center justify-between gap-3">
+        <select
+          value={source}
+          onChange={(e) => handleSourceChange(e.target.value)}
+          className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-600 text-slate-200 text-sm"
+        >
+          <option value="" disabled>Choose a video source…</option>
+          {cameras.map((cam, i) => (
+            <option key={cam.deviceId || i} value={cam.deviceId}>
+              {cam.label || `Camera ${i + 1}`}
+            </option>
+          ))}
+          <option value={TEST_PATTERN_SOURCE}>Test pattern (canvas stream)</option>
+          <option value={VIDEO_FILE_SOURCE}>Video file as camera…</option>
+        </select>
+        <input ref={videoFileInputRef} type="file" className="hidden" accept="video/*" onChange={handleVideoFile} />
+
+        <div className="flex items-center gap-2">
+          {paused ? (
+            <button onClick={resume} disabled={!running} className={buttonClass}>Resume</button>
+          ) : (
+            <button onClick={pause} disabled={!running} className={buttonClass}>Pause</button>
+          )}
+          <button onClick={snapshot} disabled={!running} className={buttonClass}>Snapshot</button>
+          <button onClick={stopStream} disabled={!running} className={buttonClass}>Stop</button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="relative max-w-full w-fit">
+        <video ref={videoRef} className="hidden" muted playsInline />
+        <canvas ref={canvasRef} className={`max-w-full max-h-[70vh] block rounded-lg ${running ? '' : 'hidden'}`} />
+        {running && <ZoneOverlay zones={zones} sample={zoneView.sample} />}
+        {running && (
+          <div className="absolute top-2 right-2 px-3 py-1 rounded-md bg-slate-900/80 text-xs font-mono text-indigo-300">
+            {stats.fps.toFixed(0)} fps · {stats.latencyMs.toFixed(0)} ms/inference · {stats.skipped} skipped
+            {paused && <span className="ml-2 text-amber-300">paused</span>}
+          </div>
+        )}
+        {!running && !error && (
+          <p className="text-slate-500 text-center p-10">Pick a camera, the test pattern or a video file to start live detection.</p>
+        )}
+      </div>
+
+      {running && (
+        <ZoneCounters
+          layout={zones.layout}
+          sample={zoneView.sample}
+          dwell={zoneView.dwell}
+          getHistory={() => ({ samples: samplesRef.current, visits: zoneCounterRef.current?.visits() ?? [] })}
+        />
+      )}
+    </div>
+  );
+};
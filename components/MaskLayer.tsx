@@ -0,0 +1,30 @@
+import React, { useEffect, useRef } from 'react';
+import { SegmentationResult } from '../types';
+import { drawMasks } from '../utils/masks';
+import { labelColor } from '../utils/overlay';
+
+interface MaskLayerProps {
+  masks: SegmentationResult[];
+}
+
+/**
+ * Canvas of the analyzed image's size, stretched over the displayed image, with every
+ * mask painted semi-transparently in its label color.
+ */
+export const MaskLayer: React.FC<MaskLayerProps> = ({ masks }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const first = masks[0]?.mask;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !first) return;
+    canvas.width = first.imageWidth;
+    canvas.height = first.imageHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawMasks(ctx, masks, (label) => labelColor(label));
+  }, [masks, first]);
+
+  if (!first) return null;
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden="true" />;
+};
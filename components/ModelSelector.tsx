@@ -0,0 +1,40 @@
+import React from 'react';
+import { ModelEntry, ModelTask } from '../types';
+import { MODEL_REGISTRY, getModelEntry } from '../modelRegistry';
+
+interface ModelSelectorProps {
+  model: ModelEntry;
+  onChange: (model: ModelEntry) => void;
+  disabled?: boolean;
+}
+
+const GROUPS: { label: string; task: ModelTask }[] = [
+  { label: 'Fixed classes (COCO)', task: 'object-detection' },
+  { label: 'Open vocabulary (zero-shot)', task: 'zero-shot-object-detection' },
+  { label: 'Segmentation masks (COCO panoptic)', task: 'image-segmentation' },
+];
+
+export const ModelSelector: React.FC<ModelSelectorProps> = ({ model, onChange, disabled }) => (
+  <label className="flex items-center gap-2 text-sm text-slate-400">
+    <span className="hidden lg:inline">Model</span>
+    <select
+      value={model.id}
+      disabled={disabled}
+      onChange={(e) => {
+        const entry = getModelEntry(e.target.value);
+        if (entry) onChange(entry);
+      }}
+      className="px-3 py-2 rounded-xl bg-slate-800 border border-slate-600 text-slate-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {GROUPS.map((group) => (
+        <optgroup key={group.label} label={group.label}>
+          {MODEL_REGISTRY.filter((entry) => entry.task === group.task).map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name} (~{entry.sizeMB} MB)
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  </label>
+);
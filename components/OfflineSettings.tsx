@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ModelOrigin, ModelSource, ModelSourceMode } from '../types';
+import { CachedModel, deleteCachedModel, formatBytes, listCachedModels } from '../utils/modelCache';
+import { MODEL_SOURCE_LABELS, describeOrigin, toFolderFiles } from '../utils/modelSources';
+import { OfflineStatus, getOfflineStatus } from '../utils/serviceWorker';
+import { getModelEntry } from '../modelRegistry';
+
+const OFFLINE_STATUS_TEXT: Record<OfflineStatus, string> = {
+  unsupported: 'This browser does not support service workers, so the app needs the network to start.',
+  development: 'The offline app shell is only installed by production builds (npm run build).',
+  installing: 'Caching the app shell for offline use...',
+  ready: 'The app shell is cached and the app can be installed and started offline.',
+};
+
+interface OfflineSettingsProps {
+  source: ModelSource;
+  onSourceChange: (source: ModelSource) => void;
+  // Where the current model was read from; null while loading
+  origin: ModelOrigin | null;
+  disabled?: boolean;
+}
+
+export const OfflineSettings: React.FC<OfflineSettingsProps> = ({ source, onSourceChange, origin, disabled }) => {
+  const [localPath, setLocalPath] = useState(source.localPath);
+  const [cached, setCached] = useState<CachedModel[] | null>(null);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [offlineStatus, setOfflineStatus] = useState<OfflineStatus | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCached(await listCachedModels());
+      setStorage(navigator.storage?.estimate ? await navigator.storage.estimate() : null);
+    } catch (error) {
+      console.error('Could not read the model cache:', error);
+      setCached([]);
+    }
+  }, []);
+
+  // A finished load may have added files to the cache
+  useEffect(() => {
+    refresh();
+  }, [refresh, origin]);
+
+  useEffect(() => {
+    getOfflineStatus().then(setOfflineStatus);
+  }, []);
+
+  const handleMode = (mode: ModelSourceMode) => {
+    if (mode === 'folder') {
+      // Switching only happens once a folder has actually been picked
+      folderInputRef.current?.click();
+      return;
+    }
+    onSourceChange({ mode, localPath });
+  };
+
+  const handleFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) onSourceChange({ mode: 'folder', localPath, files: toFolderFiles(files) });
+    e.target.value = '';
+  };
+
+  const applyLocalPath = () => {
+    const path = localPath.trim() || source.localPath;
+    const normalized = path.endsWith('/') ? path : `${path}/`;
+    setLocalPath(normalized);
+    if (normalized !== source.localPath) onSourceChange({ ...source, localPath: normalized });
+  };
+
+  const handleDelete = async (model: CachedModel) => {
+    await deleteCachedModel(model);
+    refresh();
+  };
+
+  const total = cached?.reduce((sum, model) => sum + model.bytes, 0) ?? 0;
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-slate-200">Offline & model files</h3>
+        {origin && <span className="text-xs font-mono text-slate-400">{describeOrigin(origin, source)}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm text-slate-400 mb-2">Load model files from</p>
+          <div className="space-y-2">
+            {(Object.keys(MODEL_SOURCE_LABELS) as ModelSourceMode[]).map((mode) => (
+              <label key={mode} className={`flex items-center gap-2 text-sm text-slate-200 ${disabled ? 'opacity-50' : ''}`}>
+                <input
+                  type="radio"
+                  name="model-source"
+                  checked={source.mode === mode}
+                  disabled={disabled}
+                  onChange={() => handleMode(mode)}
+                  className="accent-indigo-500"
+                />
+                {MODEL_SOURCE_LABELS[mode]}
+                {mode === 'folder' && source.mode === 'folder' && (
+                  <button onClick={() => folderInputRef.current?.click()} disabled={disabled} className="ml-2 text-xs text-indigo-400 hover:text-indigo-300 underline">
+                    {source.files?.length ?? 0} files · change
+                  </button>
+                )}
+              </label>
+            ))}
+          </div>
+          <input ref={folderInputRef} type="file" className="hidden" multiple onChange={handleFolder} {...{ webkitdirectory: '' }} />
+          <label className="mt-3 flex items-center gap-2 text-sm">
+            <span className="text-slate-400">Local path</span>
+            <input
+              type="text"
+              value={localPath}
+              disabled={disabled}
+              onChange={(e) => setLocalPath(e.target.value)}
+              onBlur={applyLocalPath}
+              onKeyDown={(e) => e.key === 'Enter' && applyLocalPath()}
+              className="flex-1 px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm font-mono"
+            />
+          </label>
+          <p className="mt-2 text-xs text-slate-500">
+            Local and folder modes never contact the hub. Both expect the hub layout, e.g. <code>{source.localPath}Xenova/detr-resnet-50/onnx/model_quantized.onnx</code>.
+          </p>
+          <p className="mt-3 text-xs text-slate-500">{offlineStatus ? OFFLINE_STATUS_TEXT[offlineStatus] : ''}</p>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-slate-400">Cached models</p>
+            <span className="text-xs font-mono text-slate-500">
+              {formatBytes(total)}
+              {storage?.quota ? ` · ${formatBytes(storage.usage ?? 0)} of ${formatBytes(storage.quota)} used` : ''}
+            </span>
+          </div>
+          {cached === null ? (
+            <p className="text-sm text-slate-500">Reading cache...</p>
+          ) : cached.length === 0 ? (
+            <p className="text-sm text-slate-500">No models cached yet. Models are cached the first time they load.</p>
+          ) : (
+            <ul className="space-y-2">
+              {cached.map((model) => (
+                <li key={model.id} className="flex items-center justify-between gap-3 text-sm bg-slate-800/60 rounded-lg px-3 py-2">
+                  <span className="truncate text-slate-200" title={model.id}>{getModelEntry(model.id)?.name ?? model.id}</span>
+                  <span className="flex items-center gap-3 shrink-0">
+                    <span className="font-mono text-xs text-slate-400">{model.files} files · {formatBytes(model.bytes)}</span>
+                    <button onClick={() => handleDelete(model)} className="text-xs text-red-300 hover:text-red-200">Delete</button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
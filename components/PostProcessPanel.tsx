@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { PostProcessSettings } from '../types';
+import { INFERENCE_FLOOR, formatLabelMap, parseLabelMap } from '../utils/postprocess';
+import { labelColor } from '../utils/overlay';
+
+interface PostProcessPanelProps {
+  settings: PostProcessSettings;
+  onChange: (settings: PostProcessSettings) => void;
+  // Labels present in the raw results, after remapping
+  labels: string[];
+  rawCount: number;
+  shownCount: number;
+  // Zero-shot queries have their own thresholds, which replace the confidence slider
+  perQueryThresholds?: boolean;
+}
+
+export const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+  onChange: (v: number) => void;
+  disabled?: boolean;
+}> = ({ label, value, min, max, step, format, onChange, disabled }) => (
+  <label className={`flex items-center gap-3 text-sm ${disabled ? 'opacity-40' : ''}`}>
+    <span className="w-28 text-slate-400">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="flex-1 accent-indigo-500"
+    />
+    <span className="w-12 text-right font-mono text-xs text-slate-300">{format(value)}</span>
+  </label>
+);
+
+export const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+export const PostProcessPanel: React.FC<PostProcessPanelProps> = ({ settings, onChange, labels, rawCount, shownCount, perQueryThresholds }) => {
+  // Keep the raw text so half-typed rules are not reformatted under the cursor
+  const [remapText, setRemapText] = useState(() => formatLabelMap(settings.labelMap));
+  const update = (patch: Partial<PostProcessSettings>) => onChange({ ...settings, ...patch });
+  const excluded = new Set(settings.excludedLabels);
+
+  const toggleLabel = (label: string) =>
+    update({
+      excludedLabels: excluded.has(label)
+        ? settings.excludedLabels.filter((l) => l !== label)
+        : [...settings.excludedLabels, label],
+    });
+
+  return (
+    <div className="mt-6 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-200">Filters</h3>
+        <span className="text-xs font-mono text-slate-400">showing {shownCount} of {rawCount} raw detections</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+        {perQueryThresholds ? (
+          <p className="flex items-center gap-3 text-sm">
+            <span className="w-28 text-slate-400">Confidence</span>
+            <span className="text-xs text-slate-500">set per query above</span>
+          </p>
+        ) : (
+          <Slider label="Confidence" value={settings.threshold} min={INFERENCE_FLOOR} max={1} step={0.01} format={(v) => v.toFixed(2)} onChange={(threshold) => update({ threshold })} />
+        )}
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-28 text-slate-400">Top K</span>
+          <input
+            type="number"
+            min={0}
+            value={settings.topK}
+            onChange={(e) => update({ topK: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            className="w-20 px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm"
+          />
+          <span className="text-xs text-slate-500">0 = all</span>
+        </label>
+        <Slider label="Min box area" value={settings.minArea} min={0} max={1} step={0.005} format={percent} onChange={(minArea) => update({ minArea: Math.min(minArea, settings.maxArea) })} />
+        <Slider label="Max box area" value={settings.maxArea} min={0} max={1} step={0.005} format={percent} onChange={(maxArea) => update({ maxArea: Math.max(maxArea, settings.minArea) })} />
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-28 text-slate-400">NMS</span>
+          <input type="checkbox" checked={settings.nms} onChange={(e) => update({ nms: e.target.checked })} className="accent-indigo-500" />
+          <span className="text-xs text-slate-500">class-agnostic</span>
+        </label>
+        <Slider label="NMS IoU" value={settings.nmsIou} min={0.1} max={0.95} step={0.05} format={(v) => v.toFixed(2)} onChange={(nmsIou) => update({ nmsIou })} disabled={!settings.nms} />
+      </div>
+
+      {labels.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm text-slate-400 mb-2">Classes</p>
+          <div className="flex flex-wrap gap-2">
+            {labels.map((label) => (
+              <button
+                key={label}
+                onClick={() => toggleLabel(label)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-opacity ${excluded.has(label) ? 'opacity-40 line-through' : ''}`}
+                style={{ borderColor: labelColor(label), color: labelColor(label) }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4">
+        <p className="text-sm text-slate-400 mb-2">
+          Label remap <span className="text-xs text-slate-500">one rule per line, e.g. <code>car, truck, bus =&gt; vehicle</code></span>
+        </p>
+        <textarea
+          value={remapText}
+          onChange={(e) => {
+            setRemapText(e.target.value);
+            update({ labelMap: parseLabelMap(e.target.value) });
+          }}
+          rows={3}
+          className="w-full px-3 py-2 rounded-xl bg-slate-800 border border-slate-600 text-slate-200 text-sm font-mono placeholder-slate-600"
+          placeholder="car, truck, bus => vehicle"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ZeroShotQuery } from '../types';
+import { labelColor } from '../utils/overlay';
+import { INFERENCE_FLOOR } from '../utils/postprocess';
+
+interface QueryEditorProps {
+  text: string;
+  queries: ZeroShotQuery[];
+  onTextChange: (text: string) => void;
+  onThresholdChange: (label: string, threshold: number) => void;
+  onDetect: () => void;
+  canDetect: boolean;
+}
+
+export const QueryEditor: React.FC<QueryEditorProps> = ({
+  text,
+  queries,
+  onTextChange,
+  onThresholdChange,
+  onDetect,
+  canDetect,
+}) => (
+  <div className="mb-6 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+    <div className="flex flex-col sm:flex-row gap-3">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => onTextChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && canDetect) onDetect();
+        }}
+        placeholder="What should I look for? e.g. hard hat, forklift, pallet"
+        className="flex-1 px-4 py-2.5 rounded-xl bg-slate-800 border border-slate-600 text-slate-200 text-sm placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+      />
+      <button
+        onClick={onDetect}
+        disabled={!canDetect}
+        className="px-5 py-2.5 rounded-xl bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Detect
+      </button>
+    </div>
+
+    {queries.length > 0 ? (
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+        {queries.map((q) => (
+          <label key={q.label} className="flex items-center gap-3 text-sm">
+            <span className="w-32 truncate font-medium" style={{ color: labelColor(q.label) }} title={q.label}>
+              {q.label}
+            </span>
+            <input
+              type="range"
+              min={INFERENCE_FLOOR}
+              max={0.99}
+              step={0.01}
+              value={q.threshold}
+              onChange={(e) => onThresholdChange(q.label, Number(e.target.value))}
+              className="flex-1 accent-indigo-500"
+            />
+            <span className="w-10 text-right font-mono text-xs text-slate-400">{q.threshold.toFixed(2)}</span>
+          </label>
+        ))}
+      </div>
+    ) : (
+      <p className="mt-3 text-xs text-slate-500">Enter one or more comma-separated labels. Each gets its own score threshold.</p>
+    )}
+  </div>
+);
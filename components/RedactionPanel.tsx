@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RedactionSettings, RedactionStyle } from '../types';
+import { ExportSource } from './ExportMenu';
+import { Slider, percent } from './PostProcessPanel';
+import { REDACTION_STYLE_LABELS, RedactedImage, renderRedactedImage } from '../utils/redaction';
+import { exportFileName } from '../utils/exporters';
+import { labelColor } from '../utils/overlay';
+import { createZip, uniqueName, ZipEntry } from '../utils/zip';
+import { downloadBlob } from '../utils/download';
+
+interface RedactionPanelProps {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+  current: ExportSource | null;
+  batch: ExportSource[];
+}
+
+interface Preview extends RedactedImage {
+  url: string;
+  fileName: string;
+}
+
+/**
+ * Scrubs selected classes out of images before they are shared. Works from the boxes
+ * currently shown, so hand edits (e.g. a missed face drawn in) are redacted too.
+ */
+export const RedactionPanel: React.FC<RedactionPanelProps> = ({ settings, onChange, current, batch }) => {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [actualSize, setActualSize] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const update = (patch: Partial<RedactionSettings>) => onChange({ ...settings, ...patch });
+
+  // Detected labels plus whatever is selected, so a selection never disappears from the list
+  const labels = useMemo(() => {
+    const found = new Set(settings.labels);
+    [...(current ? [current] : []), ...batch].forEach((image) => image.detections.forEach((det) => found.add(det.label)));
+    return Array.from(found).sort();
+  }, [settings.labels, current, batch]);
+
+  // A preview is only valid for the settings and boxes it was rendered with
+  useEffect(() => setPreview(null), [settings, current?.src, current?.detections]);
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const toggleLabel = (label: string) =>
+    update({
+      labels: settings.labels.includes(label)
+        ? settings.labels.filter((l) => l !== label)
+        : [...settings.labels, label],
+    });
+
+  const run = async (message: string, task: () => Promise<void>) => {
+    setBusy(message);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      console.error('Redaction failed:', err);
+      setError(err instanceof Error ? err.message : 'Redaction failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePreview = () => run('Rendering…', async () => {
+    if (!current) return;
+    const result = await renderRedactedImage(current.src, current.detections, settings);
+    setPreview({ ...result, url: URL.createObjectURL(result.blob), fileName: exportFileName(current, `redacted.${result.extension}`) });
+  });
+
+  const handleBatch = () => run('Redacting…', async () => {
+    const entries: ZipEntry[] = [];
+    const used = new Set<string>();
+    // Sequential on purpose: full-resolution canvases are large
+    for (let i = 0; i < batch.length; i++) {
+      setBusy(`Redacting ${i + 1} / ${batch.length}…`);
+      const image = batch[i];
+      const result = await renderRedactedImage(image.src, image.detections, settings);
+      entries.push({ name: uniqueName(exportFileName(image, `redacted.${result.extension}`), used), data: new Uint8Array(await result.blob.arrayBuffer()) });
+    }
+    downloadBlob(createZip(entries), 'redacted.zip');
+  });
+
+  const buttonClass = 'px-4 py-2 rounded-xl bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-slate-600';
+
+  return (
+    <div className="mt-6 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-200">Redaction</h3>
+        {busy && <span className="text-xs font-mono text-slate-400">{busy}</span>}
+      </div>
+
+      <div className="mb-4">
+        <p className="text-sm text-slate-400 mb-2">Redact</p>
+        <div className="flex flex-wrap gap-2">
+          {labels.map((label) => (
+            <button
+              key={label}
+              onClick={() => toggleLabel(label)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-opacity ${settings.labels.includes(label) ? '' : 'opacity-40'}`}
+              style={{ borderColor: labelColor(label), color: labelColor(label) }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-28 text-slate-400">Style</span>
+          <select
+            value={settings.style}
+            onChange={(e) => update({ style: e.target.value as RedactionStyle })}
+            className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm"
+          >
+            {(Object.keys(REDACTION_STYLE_LABELS) as RedactionStyle[]).map((style) => <option key={style} value={style}>{REDACTION_STYLE_LABELS[style]}</option>)}
+          </select>
+          {settings.style === 'fill' && (
+            <input type="color" value={settings.fillColor} onChange={(e) => update({ fillColor: e.target.value })} className="h-7 w-10 rounded bg-transparent" />
+          )}
+        </label>
+        <Slider label="Strength" value={settings.strength} min={0.05} max={0.5} step={0.05} format={percent} onChange={(strength) => update({ strength })} disabled={settings.style === 'fill'} />
+        <Slider label="Padding" value={settings.padding} min={0} max={0.5} step={0.05} format={percent} onChange={(padding) => update({ padding })} />
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-28 text-slate-400">Metadata</span>
+          <input type="checkbox" checked={settings.stripMetadata} onChange={(e) => update({ stripMetadata: e.target.checked })} className="accent-indigo-500" />
+          <span className="text-xs text-slate-500">{settings.stripMetadata ? 'strip EXIF and GPS' : 'keep EXIF (JPEG only, thumbnail removed)'}</span>
+        </label>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <button onClick={handlePreview} disabled={!current || !!busy} className={buttonClass}>Preview</button>
+        <button onClick={() => preview && downloadBlob(preview.blob, preview.fileName)} disabled={!preview || !!busy} className={buttonClass}>Download</button>
+        {batch.length > 0 && (
+          <button onClick={handleBatch} disabled={!!busy} className={buttonClass}>Redact batch ({batch.length}) as zip</button>
+        )}
+        {settings.labels.length === 0 && <span className="text-xs text-amber-400">No labels selected: images are only re-encoded.</span>}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+      {preview && (
+        <div className="mt-4">
+          <div className="flex justify-between text-xs text-slate-400 mb-2">
+            <span>{preview.fileName} · {preview.regions} {preview.regions === 1 ? 'region' : 'regions'} redacted</span>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={actualSize} onChange={(e) => setActualSize(e.target.checked)} className="accent-indigo-500" />
+              Actual size
+            </label>
+          </div>
+          <div className="max-h-[70vh] overflow-auto rounded-lg border border-slate-700">
+            <img src={preview.url} alt="Redacted preview" className={actualSize ? 'max-w-none' : 'max-w-full'} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ExecutionDevice, RuntimeSettings, WeightDtype } from '../types';
+import { DEVICE_LABELS, DTYPE_LABELS } from '../utils/runtime';
+
+interface RuntimeSelectorProps {
+  runtime: RuntimeSettings;
+  onChange: (runtime: RuntimeSettings) => void;
+  // null while detection is still pending
+  webGpuAvailable: boolean | null;
+  disabled?: boolean;
+}
+
+const selectClass = 'px-3 py-2 rounded-xl bg-slate-800 border border-slate-600 text-slate-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const RuntimeSelector: React.FC<RuntimeSelectorProps> = ({ runtime, onChange, webGpuAvailable, disabled }) => (
+  <div className="flex items-center gap-2">
+    <select
+      value={runtime.device}
+      disabled={disabled}
+      onChange={(e) => onChange({ ...runtime, device: e.target.value as ExecutionDevice })}
+      className={selectClass}
+      aria-label="Execution device"
+    >
+      {(Object.keys(DEVICE_LABELS) as ExecutionDevice[]).map((device) => (
+        <option key={device} value={device} disabled={device === 'webgpu' && webGpuAvailable === false}>
+          {DEVICE_LABELS[device]}{device === 'webgpu' && webGpuAvailable === false ? ' (not available)' : ''}
+        </option>
+      ))}
+    </select>
+    <select
+      value={runtime.dtype}
+      disabled={disabled}
+      onChange={(e) => onChange({ ...runtime, dtype: e.target.value as WeightDtype })}
+      className={selectClass}
+      aria-label="Weight precision"
+    >
+      {(Object.keys(DTYPE_LABELS) as WeightDtype[]).map((dtype) => (
+        <option key={dtype} value={dtype}>{DTYPE_LABELS[dtype]}</option>
+      ))}
+    </select>
+  </div>
+);
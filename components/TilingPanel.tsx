@@ -0,0 +1,97 @@
+import React from 'react';
+import { MergeMethod, TilingSettings } from '../types';
+import { Slider, percent } from './PostProcessPanel';
+
+const TILE_SIZES = [512, 640, 800, 1024, 1280];
+
+const MERGE_LABELS: Record<MergeMethod, string> = {
+  nms: 'NMS (keep best box)',
+  wbf: 'WBF (average boxes)',
+};
+
+interface TilingPanelProps {
+  settings: TilingSettings;
+  onChange: (settings: TilingSettings) => void;
+  showGrid: boolean;
+  onShowGridChange: (show: boolean) => void;
+  // Model passes per image with the current settings, or null without an image
+  passes: number | null;
+  onApply: () => void;
+  canApply: boolean;
+}
+
+/**
+ * Settings for sliced inference. Unlike filters they change what the model sees,
+ * so they only take effect when the image is analyzed again.
+ */
+export const TilingPanel: React.FC<TilingPanelProps> = ({ settings, onChange, showGrid, onShowGridChange, passes, onApply, canApply }) => {
+  const update = (patch: Partial<TilingSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="mt-6 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-200">Tiled inference</h3>
+        {passes !== null && settings.enabled && (
+          <span className="text-xs font-mono text-slate-400">{passes} model {passes === 1 ? 'pass' : 'passes'} per image</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-28 text-slate-400">Enabled</span>
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="accent-indigo-500" />
+          <span className="text-xs text-slate-500">finds small objects in large images</span>
+        </label>
+        <label className={`flex items-center gap-3 text-sm ${settings.enabled ? '' : 'opacity-40'}`}>
+          <span className="w-28 text-slate-400">Tile size</span>
+          <select
+            value={settings.tileSize}
+            disabled={!settings.enabled}
+            onChange={(e) => update({ tileSize: Number(e.target.value) })}
+            className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm"
+          >
+            {TILE_SIZES.map((size) => <option key={size} value={size}>{size} px</option>)}
+          </select>
+        </label>
+        <Slider label="Overlap" value={settings.overlap} min={0} max={0.5} step={0.05} format={percent} onChange={(overlap) => update({ overlap })} disabled={!settings.enabled} />
+        <label className={`flex items-center gap-3 text-sm ${settings.enabled ? '' : 'opacity-40'}`}>
+          <span className="w-28 text-slate-400">Full image</span>
+          <input
+            type="checkbox"
+            checked={settings.includeFullImage}
+            disabled={!settings.enabled}
+            onChange={(e) => update({ includeFullImage: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          <span className="text-xs text-slate-500">extra pass for large objects</span>
+        </label>
+        <label className={`flex items-center gap-3 text-sm ${settings.enabled ? '' : 'opacity-40'}`}>
+          <span className="w-28 text-slate-400">Merge</span>
+          <select
+            value={settings.merge}
+            disabled={!settings.enabled}
+            onChange={(e) => update({ merge: e.target.value as MergeMethod })}
+            className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm"
+          >
+            {(Object.keys(MERGE_LABELS) as MergeMethod[]).map((method) => <option key={method} value={method}>{MERGE_LABELS[method]}</option>)}
+          </select>
+        </label>
+        <Slider label="Merge overlap" value={settings.mergeThreshold} min={0.1} max={0.95} step={0.05} format={(v) => v.toFixed(2)} onChange={(mergeThreshold) => update({ mergeThreshold })} disabled={!settings.enabled} />
+      </div>
+
+      <div className="mt-4 flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-slate-400">
+          <input type="checkbox" checked={showGrid} onChange={(e) => onShowGridChange(e.target.checked)} className="accent-indigo-500" />
+          Show tile grid
+        </label>
+        <button
+          onClick={onApply}
+          disabled={!canApply}
+          className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Analyze again
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { DetectOptions, PostProcessSettings, VideoFrameResult } from '../types';
+import { DetectorClient, DetectionCancelledError } from '../services/detectorClient';
+import { ZoneLayoutState } from '../hooks/useZoneLayout';
+import { ZoneOverlay } from './ZoneOverlay';
+import { ZoneCounters } from './ZoneCounters';
+import { drawDetections, labelColor } from '../utils/overlay';
+import { openVideoForSampling, seekVideo } from '../utils/mediaSources';
+import { FrameTracker, TrackedFrame, buildTimelineRows, countTracks, createFrameTracker, frameIndexAt, trackCaption } from '../utils/trackTimeline';
+import { countFrames, summarizeDwellByZone } from '../utils/zoneCounter';
+
+const SAMPLE_RATES = [1, 2, 5, 10];
+const DEFAULT_SAMPLE_RATE = 2;
+
+interface AnalysisRun {
+  cancelled: boolean;
+  jobId: number | null;
+}
+
+interface VideoAnalyzerProps {
+  clientRef: React.RefObject<DetectorClient | null>;
+  options: DetectOptions;
+  filters: PostProcessSettings;
+  zones: ZoneLayoutState;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Samples a video file through the detector at a fixed rate, links the per-frame results
+ * into tracks and plays the video back with the tracked boxes and a presence timeline.
+ */
+export const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ clientRef, options, filters, zones }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [duration, setDuration] = useState(0);
+  const [sampleRate, setSampleRate] = useState(DEFAULT_SAMPLE_RATE);
+  // Rate the stored frames were sampled at; the selector may have changed since
+  const [analyzedRate, setAnalyzedRate] = useState(DEFAULT_SAMPLE_RATE);
+  const [frames, setFrames] = useState<VideoFrameResult[]>([]);
+  const [tracked, setTracked] = useState<TrackedFrame[]>([]);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const runRef = useRef<AnalysisRun | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const framesRef = useRef(frames);
+  framesRef.current = frames;
+  // Tracker state after the last tracked frame, so each new sample is tracked on its own
+  const frameTrackerRef = useRef<FrameTracker | null>(null);
+
+  // New filters re-track the stored frames from scratch; analysis then continues from there
+  useEffect(() => {
+    const frameTracker = createFrameTracker(filters);
+    setTracked(framesRef.current.map((frame) => frameTracker.add(frame)));
+    frameTrackerRef.current = frameTracker;
+  }, [filters]);
+
+  const interval = 1 / analyzedRate;
+  const rows = useMemo(() => buildTimelineRows(tracked, interval), [tracked, interval]);
+  const trackedRef = useRef(tracked);
+  trackedRef.current = tracked;
+  // Counters are replayed over the stored tracks, so new or moved zones apply without re-analysis
+  const zoneCounts = useMemo(
+    () => (zones.isEmpty ? null : countFrames(tracked, zones.layout)),
+    [tracked, zones.layout, zones.isEmpty],
+  );
+  const playheadIndex = frameIndexAt(tracked, currentTime);
+  const zoneSample = zoneCounts && playheadIndex >= 0 ? zoneCounts.samples[playheadIndex] : null;
+
+  const cancelAnalysis = () => {
+    const run = runRef.current;
+    if (!run) return;
+    run.cancelled = true;
+    if (run.jobId !== null) clientRef.current?.cancel(run.jobId);
+    runRef.current = null;
+    setAnalyzing(false);
+  };
+
+  useEffect(() => () => cancelAnalysis(), []);
+
+  useEffect(() => () => {
+    if (src) URL.revokeObjectURL(src);
+  }, [src]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    cancelAnalysis();
+    setFrames([]);
+    setTracked([]);
+    setProgress(0);
+    setError(null);
+    setCurrentTime(0);
+    setFileName(file.name);
+    setSrc(URL.createObjectURL(file));
+  };
+
+  const analyze = async () => {
+    const client = clientRef.current;
+    if (!client || !src) return;
+    cancelAnalysis();
+    const run: AnalysisRun = { cancelled: false, jobId: null };
+    runRef.current = run;
+    const rate = sampleRate;
+    setAnalyzedRate(rate);
+    setFrames([]);
+    setTracked([]);
+    frameTrackerRef.current = createFrameTracker(filters);
+    setProgress(0);
+    setError(null);
+    setAnalyzing(true);
+
+    let sampler: HTMLVideoElement | null = null;
+    try {
+      sampler = await openVideoForSampling(src);
+      const { videoWidth: width, videoHeight: height, duration: total } = sampler;
+      // Some recorded WebM files report an infinite duration until played through
+      if (!Number.isFinite(total)) throw new Error('The video does not report its duration, so it cannot be sampled.');
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d')!;
+
+      for (let i = 0; i / rate < total; i++) {
+        const time = i / rate;
+        await seekVideo(sampler, time);
+        if (run.cancelled) return;
+        ctx.drawImage(sampler, 0, 0, width, height);
+        const job = client.detect(await createImageBitmap(canvas), optionsRef.current);
+        run.jobId = job.id;
+        const detections = await job.result;
+        run.jobId = null;
+        if (run.cancelled) return;
+        const frame: VideoFrameResult = { time, detections };
+        const trackedFrame = frameTrackerRef.current!.add(frame);
+        // Publish as we go so tracks and the timeline fill in during analysis
+        setFrames((prev) => [...prev, frame]);
+        setTracked((prev) => [...prev, trackedFrame]);
+        setProgress(Math.min(1, (time + 1 / rate) / total));
+      }
+    } catch (err) {
+      if (err instanceof DetectionCancelledError || run.cancelled) return;
+      console.error('Video analysis error:', err);
+      setError(err instanceof Error ? err.message : 'Video analysis failed.');
+    } finally {
+      if (sampler) {
+        sampler.removeAttribute('src');
+        sampler.load();
+      }
+      if (runRef.current === run) {
+        runRef.current = null;
+        setAnalyzing(false);
+      }
+    }
+  };
+
+  // Overlay loop: draws the tracks of the most recent sampled frame under the playhead
+  useEffect(() => {
+    if (!src) return;
+    let raf = 0;
+    const tick = () => {
+      raf = requestAnimationFrame(tick);
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || !video.videoWidth) return;
+      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+      }
+      const ctx = canvas.getContext('2d')!;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const frames = trackedRef.current;
+      const index = frameIndexAt(frames, video.currentTime);
+      // Past the analyzed range nothing is known, so show nothing rather than stale boxes
+      if (index < 0 || video.currentTime - frames[index].time > interval) return;
+      drawDetections(ctx, frames[index].detections, canvas.width, canvas.height, trackCaption);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [src, interval]);
+
+  const seekTo = (e: React.MouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!video || !duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    video.currentTime = Math.min(duration, Math.max(0, ((e.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const buttonClass = 'px-4 py-2 rounded-xl bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-slate-600';
+  const playhead = duration ? (currentTime / duration) * 100 : 0;
+
+  return (
+    <div className="w-full self-stretch p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInputRef.current?.click()} disabled={analyzing} className={buttonClass}>Open video</button>
+          <input ref={fileInputRef} type="file" className="hidden" accept="video/mp4,video/webm,video/*" onChange={handleFile} />
+          <label className="flex items-center gap-2 text-sm text-slate-400 ml-2">
+            Sample
+            <select
+              value={sampleRate}
+              onChange={(e) => setSampleRate(Number(e.target.value))}
+              disabled={analyzing}
+              className="px-2 py-1.5 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm"
+            >
+              {SAMPLE_RATES.map((rate) => <option key={rate} value={rate}>{rate} fps</option>)}
+            </select>
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          {analyzing ? (
+            <button onClick={cancelAnalysis} className={buttonClass}>Cancel</button>
+          ) : (
+            <button onClick={analyze} disabled={!src} className={buttonClass}>Analyze</button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+      {src ? (
+        <>
+          <div className="relative mt-4 mx-auto w-fit max-w-full">
+            <video
+              ref={videoRef}
+              src={src}
+              controls
+              muted
+              playsInline
+              className="max-w-full max-h-[60vh] block rounded-lg"
+              onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+              onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+              onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            />
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+            <ZoneOverlay zones={zones} sample={zoneSample} />
+          </div>
+
+          {(analyzing || frames.length > 0) && (
+            <div className="mt-4">
+              <div className="flex justify-between text-xs text-slate-400 mb-1">
+                <span>
+                  {fileName} · {frames.length} frames at {analyzedRate} fps · {countTracks(tracked)} tracks
+                </span>
+                <span>{analyzing ? `${Math.round(progress * 100)}%` : 'done'}</span>
+              </div>
+              <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {zoneCounts && frames.length > 0 && (
+            <ZoneCounters
+              layout={zones.layout}
+              sample={zoneSample}
+              dwell={summarizeDwellByZone(zoneCounts.visits, zones.layout, currentTime)}
+              getHistory={() => zoneCounts}
+            />
+          )}
+
+          {rows.length > 0 && (
+            <div className="mt-4 max-h-72 overflow-y-auto pr-1">
+              {rows.map((row) => (
+                <div key={row.trackId ?? `label-${row.label}`} className="flex items-center gap-3 py-0.5">
+                  <span
+                    className={`w-32 shrink-0 truncate text-xs ${row.trackId === undefined ? 'font-bold' : 'pl-3 font-mono'}`}
+                    style={{ color: labelColor(row.label) }}
+                    title={row.label}
+                  >
+                    {row.trackId === undefined ? row.label : `#${row.trackId}`}
+                  </span>
+                  <div className="relative flex-1 h-4 rounded bg-slate-800 cursor-pointer" onClick={seekTo}>
+                    {row.segments.map(([start, end]) => (
+                      <div
+                        key={start}
+                        className="absolute top-0 h-full rounded-sm"
+                        style={{
+                          left: `${(start / duration) * 100}%`,
+                          width: `${(Math.min(end, duration) - start) / duration * 100}%`,
+                          backgroundColor: labelColor(row.label, row.trackId === undefined ? 0.9 : 0.6),
+                        }}
+                      />
+                    ))}
+                    <div className="absolute top-0 h-full w-px bg-white/80 pointer-events-none" style={{ left: `${playhead}%` }} />
+                  </div>
+                </div>
+              ))}
+              <p className="mt-2 text-xs text-slate-500">
+                {formatTime(currentTime)} / {formatTime(duration)} · click the timeline to seek. Filters apply to tracking without re-running the model.
+              </p>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-slate-500 text-center p-10">Open an MP4 or WebM file, then analyze it to track objects over time.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ZoneLayout } from '../types';
+import { CounterSample, DwellSummary, LineCount, ZoneVisit, lineTotal, toCounterCsv, toVisitsCsv } from '../utils/zoneCounter';
+import { downloadText } from '../utils/download';
+
+interface ZoneCountersProps {
+  layout: ZoneLayout;
+  // Counts at the current moment: the latest live sample or the one under the video playhead
+  sample: CounterSample | null;
+  // Zone id -> dwell up to that same moment
+  dwell: Record<string, DwellSummary>;
+  // Full history, only read when exporting
+  getHistory: () => { samples: CounterSample[]; visits: ZoneVisit[] };
+}
+
+const seconds = (value: number) => `${value.toFixed(1)} s`;
+
+const formatCounts = (counts: Record<string, number>) => {
+  const entries = Object.entries(counts).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? entries.map(([label, n]) => `${label} ${n}`).join(', ') : '—';
+};
+
+export const ZoneCounters: React.FC<ZoneCountersProps> = ({ layout, sample, dwell, getHistory }) => {
+  if (layout.zones.length === 0 && layout.lines.length === 0) return null;
+
+  const exportCsv = (kind: 'counts' | 'visits') => {
+    const history = getHistory();
+    if (kind === 'counts') downloadText(toCounterCsv(history.samples, layout), 'zone-counts.csv', 'text/csv');
+    else downloadText(toVisitsCsv(history.visits, layout), 'zone-visits.csv', 'text/csv');
+  };
+
+  const buttonClass = 'px-3 py-1.5 rounded-lg bg-slate-700/50 text-slate-200 text-xs font-medium hover:bg-slate-700 transition-colors border border-slate-600';
+
+  return (
+    <div className="mt-4 w-full">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-semibold text-slate-300">Counters</p>
+        <div className="flex gap-2">
+          <button onClick={() => exportCsv('counts')} className={buttonClass}>Counts CSV</button>
+          {layout.zones.length > 0 && <button onClick={() => exportCsv('visits')} className={buttonClass}>Visits CSV</button>}
+        </div>
+      </div>
+      <table className="w-full text-xs text-slate-300">
+        <thead className="text-slate-500 text-left">
+          <tr>
+            <th className="py-1 font-medium">Name</th>
+            <th className="py-1 font-medium">Now</th>
+            <th className="py-1 font-medium">Visits / crossings</th>
+            <th className="py-1 font-medium">Dwell avg · max</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {layout.zones.map((zone) => {
+            const stay = dwell[zone.id] ?? { visits: 0, averageSeconds: 0, longestSeconds: 0 };
+            return (
+              <tr key={zone.id} className="border-t border-slate-800">
+                <td className="py-1 font-sans">{zone.name}</td>
+                <td className="py-1">{sample ? formatCounts(sample.occupancy[zone.id] ?? {}) : '—'}</td>
+                <td className="py-1">{stay.visits}</td>
+                <td className="py-1">{stay.visits > 0 ? `${seconds(stay.averageSeconds)} · ${seconds(stay.longestSeconds)}` : '—'}</td>
+              </tr>
+            );
+          })}
+          {layout.lines.map((line) => {
+            const byLabel: Record<string, LineCount> = sample?.crossings[line.id] ?? {};
+            const total = lineTotal(byLabel);
+            return (
+              <tr key={line.id} className="border-t border-slate-800">
+                <td className="py-1 font-sans">{line.name}</td>
+                <td className="py-1">—</td>
+                <td className="py-1" title={Object.entries(byLabel).map(([label, c]) => `${label}: ${c.forward} fwd, ${c.backward} back`).join('\n')}>
+                  fwd {total.forward} · back {total.backward}
+                </td>
+                <td className="py-1">—</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { Point } from '../types';
+import { ZoneLayoutState } from '../hooks/useZoneLayout';
+import { CounterSample, lineTotal } from '../utils/zoneCounter';
+import { polygonCenter } from '../utils/zones';
+
+export const ZONE_COLOR = '#f59e0b';
+export const LINE_COLOR = '#22d3ee';
+
+// Clicking this close to the first point (normalized units) closes the polygon
+const CLOSE_DISTANCE = 0.02;
+// Length of the direction arrow, normalized
+const ARROW_LENGTH = 0.05;
+
+interface ZoneOverlayProps {
+  zones: ZoneLayoutState;
+  // Counts to show next to each zone and line
+  sample?: CounterSample | null;
+}
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const formatOccupancy = (counts: Record<string, number> | undefined) => {
+  const entries = Object.entries(counts ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? entries.map(([label, n]) => `${label} ${n}`).join(' · ') : 'empty';
+};
+
+/**
+ * Draws the zone layout over an image, video or canvas inside a relatively positioned
+ * container of the media's size, and turns clicks into shapes while a tool is armed.
+ */
+export const ZoneOverlay: React.FC<ZoneOverlayProps> = ({ zones, sample }) => {
+  const { layout, tool } = zones;
+  const [draft, setDraft] = useState<Point[]>([]);
+  const [hover, setHover] = useState<Point | null>(null);
+
+  useEffect(() => {
+    setDraft([]);
+    setHover(null);
+  }, [tool]);
+
+  const finishZone = (points: Point[]) => {
+    if (points.length >= 3) zones.addZone(points);
+    setDraft([]);
+  };
+
+  useEffect(() => {
+    if (!tool) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Escape') {
+        if (draft.length > 0) setDraft([]);
+        else zones.setTool(null);
+      } else if (e.key === 'Enter' && tool === 'zone') {
+        finishZone(draft);
+      } else if (e.key === 'Backspace') {
+        e.preventDefault();
+        setDraft((prev) => prev.slice(0, -1));
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [tool, draft, zones.setTool]);
+
+  const toPoint = (e: React.MouseEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const p = toPoint(e);
+    if (tool === 'line') {
+      if (draft.length === 0) setDraft([p]);
+      else {
+        zones.addLine(draft[0], p);
+        setDraft([]);
+      }
+      return;
+    }
+    const first = draft[0];
+    if (draft.length >= 3 && Math.hypot(p.x - first.x, p.y - first.y) < CLOSE_DISTANCE) finishZone(draft);
+    else setDraft([...draft, p]);
+  };
+
+  if (zones.isEmpty && !tool) return null;
+  const rubberBand = hover && draft.length > 0 ? [...draft, hover] : draft;
+
+  return (
+    <>
+      <svg className="absolute inset-0 w-full h-full pointer-events-none z-10" viewBox="0 0 1 1" preserveAspectRatio="none">
+        {layout.zones.map((zone) => (
+          <polygon
+            key={zone.id}
+            points={zone.points.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill={ZONE_COLOR}
+            fillOpacity={0.12}
+            stroke={ZONE_COLOR}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {layout.lines.map((line) => {
+          const mid = { x: (line.start.x + line.end.x) / 2, y: (line.start.y + line.end.y) / 2 };
+          const dx = line.end.x - line.start.x;
+          const dy = line.end.y - line.start.y;
+          const length = Math.hypot(dx, dy) || 1;
+          // Points into the forward (right-hand) side
+          const tip = { x: mid.x - (dy / length) * ARROW_LENGTH, y: mid.y + (dx / length) * ARROW_LENGTH };
+          return (
+            <g key={line.id} stroke={LINE_COLOR}>
+              <line x1={line.start.x} y1={line.start.y} x2={line.end.x} y2={line.end.y} strokeWidth={3} vectorEffect="non-scaling-stroke" />
+              <line x1={mid.x} y1={mid.y} x2={tip.x} y2={tip.y} strokeWidth={2} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+            </g>
+          );
+        })}
+        {rubberBand.length > 0 && (
+          <polyline
+            points={rubberBand.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke={tool === 'line' ? LINE_COLOR : ZONE_COLOR}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      {/* Captions are HTML so text is not stretched by the non-uniform SVG scaling */}
+      {layout.zones.map((zone) => {
+        const center = polygonCenter(zone.points);
+        return (
+          <div
+            key={zone.id}
+            className="absolute z-10 -translate-x-1/2 -translate-y-1/2 px-2 py-0.5 rounded-md text-[11px] font-bold text-slate-900 whitespace-nowrap pointer-events-none"
+            style={{ left: `${center.x * 100}%`, top: `${center.y * 100}%`, backgroundColor: ZONE_COLOR }}
+          >
+            {zone.name}
+            {sample && <span className="font-normal"> · {formatOccupancy(sample.occupancy[zone.id])}</span>}
+          </div>
+        );
+      })}
+      {layout.lines.map((line) => {
+        const total = lineTotal(sample?.crossings[line.id]);
+        return (
+          <div
+            key={line.id}
+            className="absolute z-10 -translate-x-1/2 -translate-y-full px-2 py-0.5 rounded-md text-[11px] font-bold text-slate-900 whitespace-nowrap pointer-events-none"
+            style={{ left: `${((line.start.x + line.end.x) / 2) * 100}%`, top: `${((line.start.y + line.end.y) / 2) * 100}%`, backgroundColor: LINE_COLOR }}
+          >
+            {line.name}
+            {sample && <span className="font-normal"> · fwd {total.forward} · back {total.backward}</span>}
+          </div>
+        );
+      })}
+
+      {tool && (
+        <div
+          className="absolute inset-0 z-20 cursor-crosshair"
+          onClick={handleClick}
+          onMouseMove={(e) => setHover(toPoint(e))}
+          onMouseLeave={() => setHover(null)}
+        >
+          <div className="absolute top-2 left-2 px-3 py-1 rounded-md bg-slate-900/85 text-xs text-slate-200 pointer-events-none">
+            {tool === 'line'
+              ? draft.length === 0 ? 'Click where the line starts' : 'Click where the line ends · Esc to cancel'
+              : 'Click to add points · Enter or click the first point to close · Backspace undoes a point · Esc cancels'}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { ZoneLayoutState, ZoneTool } from '../hooks/useZoneLayout';
+import { parseLayout, serializeLayout } from '../utils/zones';
+import { downloadText } from '../utils/download';
+import { LINE_COLOR, ZONE_COLOR } from './ZoneOverlay';
+
+interface ZonePanelProps {
+  zones: ZoneLayoutState;
+}
+
+/**
+ * Layout editor: arms the drawing tools, names and removes shapes, and saves or loads
+ * the layout as JSON so a fixed camera can reuse it.
+ */
+export const ZonePanel: React.FC<ZonePanelProps> = ({ zones }) => {
+  const { layout, tool } = zones;
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleTool = (next: ZoneTool) => zones.setTool(tool === next ? null : next);
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      zones.replace(parseLayout(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the zone file.');
+    }
+  };
+
+  const buttonClass = 'px-3 py-1.5 rounded-lg bg-slate-700/50 text-slate-200 text-sm font-medium hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed border border-slate-600';
+  const toolClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 text-slate-200 hover:bg-slate-700'}`;
+  const inputClass = 'flex-1 min-w-0 px-2 py-1 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm';
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl bg-slate-900/60 border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-lg font-semibold text-slate-200">Zones &amp; lines</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => toggleTool('zone')} className={toolClass(tool === 'zone')}>Draw zone</button>
+          <button onClick={() => toggleTool('line')} className={toolClass(tool === 'line')}>Draw line</button>
+          <button onClick={() => downloadText(serializeLayout(layout), 'zones.json', 'application/json')} disabled={zones.isEmpty} className={buttonClass}>Save JSON</button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Load JSON</button>
+          <input ref={fileInputRef} type="file" className="hidden" accept="application/json,.json" onChange={handleLoad} />
+          <button onClick={() => zones.replace({ zones: [], lines: [] })} disabled={zones.isEmpty} className={buttonClass}>Clear</button>
+        </div>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+      {zones.isEmpty ? (
+        <p className="text-sm text-slate-500">
+          Draw polygons to count what is inside them, and lines to count crossings. Shapes apply to the image, video and live views.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {layout.zones.map((zone) => (
+            <div key={zone.id} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: ZONE_COLOR }} />
+              <input value={zone.name} onChange={(e) => zones.rename(zone.id, e.target.value)} className={inputClass} aria-label="Zone name" />
+              <span className="text-xs text-slate-500 w-16">{zone.points.length} points</span>
+              <button onClick={() => zones.remove(zone.id)} className={buttonClass}>Delete</button>
+            </div>
+          ))}
+          {layout.lines.map((line) => (
+            <div key={line.id} className="flex items-center gap-2">
+              <span className="w-3 h-1 rounded-sm shrink-0" style={{ backgroundColor: LINE_COLOR }} />
+              <input value={line.name} onChange={(e) => zones.rename(line.id, e.target.value)} className={inputClass} aria-label="Line name" />
+              <button onClick={() => zones.reverseLine(line.id)} className={buttonClass} title="Swap which direction counts as forward">Reverse</button>
+              <button onClick={() => zones.remove(line.id)} className={buttonClass}>Delete</button>
+            </div>
+          ))}
+        </div>
+      )}
+      {!zones.isEmpty && (
+        <p className="mt-3 text-xs text-slate-500">Objects are placed by their box centre. Forward crossings go in the direction of the dashed arrow.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { useState, useCallback } from 'react';
+import { DetectionResult } from '../types';
+
+const HISTORY_LIMIT = 100;
+
+interface History {
+  past: DetectionResult[][];
+  // null while the (filtered) model output is shown untouched
+  present: DetectionResult[] | null;
+  future: DetectionResult[][];
+}
+
+const EMPTY_HISTORY: History = { past: [], present: null, future: [] };
+
+/**
+ * Undo/redo history for hand-edited detections. Every committed edit is a full
+ * snapshot, so undo never has to invert an operation.
+ */
+export const useAnnotationHistory = () => {
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+
+  // Freezes the given detections as the starting point; a no-op if edits already exist
+  const begin = useCallback((detections: DetectionResult[]) => {
+    setHistory((prev) => (prev.present ? prev : { past: [], present: detections, future: [] }));
+  }, []);
+
+  const commit = useCallback((next: DetectionResult[]) => {
+    setHistory((prev) => ({
+      past: prev.present ? [...prev.past, prev.present].slice(-HISTORY_LIMIT) : prev.past,
+      present: next,
+      future: [],
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0 || !prev.present) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0 || !prev.present) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Replaces the edited set without history, e.g. when switching images; null discards edits
+  const load = useCallback((annotations: DetectionResult[] | null) => {
+    setHistory({ past: [], present: annotations, future: [] });
+  }, []);
+
+  return {
+    annotations: history.present,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    begin,
+    commit,
+    undo,
+    redo,
+    load,
+  };
+};
+
+export type AnnotationHistory = ReturnType<typeof useAnnotationHistory>;
@@ -0,0 +1,69 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+const STORAGE_KEY = 'objectsense.speech';
+// Long enough for screen readers to notice the region was emptied before the new text lands
+const CLEAR_DELAY_MS = 100;
+
+const loadSpeechSetting = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'on';
+  } catch {
+    // Inaccessible storage leaves speech off
+    return false;
+  }
+};
+
+const saveSpeechSetting = (enabled: boolean) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off');
+  } catch {
+    // Not being able to remember the choice is harmless
+  }
+};
+
+export const speechSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Text for an ARIA live region, plus optional reading aloud with the Web Speech API.
+ * The region is emptied before each message so a repeated message is announced again.
+ */
+export const useAnnouncer = () => {
+  const [message, setMessage] = useState('');
+  const [speech, setSpeechState] = useState(() => speechSupported && loadSpeechSetting());
+  const speechRef = useRef(speech);
+  speechRef.current = speech;
+  const timerRef = useRef<number | null>(null);
+
+  const speak = useCallback((text: string) => {
+    if (!speechSupported) return;
+    // A new message replaces whatever is still being read
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+  }, []);
+
+  // `aloud` marks messages worth speaking when speech is on; status chatter is left to screen readers
+  const announce = useCallback((text: string, aloud = false) => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    setMessage('');
+    timerRef.current = window.setTimeout(() => {
+      timerRef.current = null;
+      setMessage(text);
+    }, CLEAR_DELAY_MS);
+    if (aloud && speechRef.current) speak(text);
+  }, [speak]);
+
+  const setSpeech = useCallback((enabled: boolean) => {
+    setSpeechState(enabled);
+    saveSpeechSetting(enabled);
+    if (!enabled && speechSupported) window.speechSynthesis.cancel();
+  }, []);
+
+  useEffect(() => () => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    if (speechSupported) window.speechSynthesis.cancel();
+  }, []);
+
+  return { message, announce, speak, speech, setSpeech };
+};
+
+export type Announcer = ReturnType<typeof useAnnouncer>;
@@ -0,0 +1,180 @@
+import { useState, useRef, useCallback, useEffect, RefObject } from 'react';
+import { BatchItem, BatchState, DetectionResult, DetectionRun, DetectOptions, ModelEntry, PostProcessSettings, RuntimeSettings, TilingSettings } from '../types';
+import { DetectorClient, DetectionCancelledError } from '../services/detectorClient';
+import { detectTiled } from '../services/tiledDetection';
+import { createRun } from '../utils/runs';
+import { ImageInputSettings, decodeForDetection, isImageFile } from '../utils/imageInput';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+interface BatchSettings {
+  model: ModelEntry;
+  detectOptions: DetectOptions;
+  // Recorded with each result; the filters themselves are applied when results are shown
+  postProcess: PostProcessSettings;
+  tiling: TilingSettings;
+  input: ImageInputSettings;
+  // What the loaded model runs on, recorded with each result
+  runtime?: RuntimeSettings;
+}
+
+let batchItemSeq = 0;
+
+// Folder uploads carry the relative path; show it so duplicates in sub-folders stay distinguishable
+const displayName = (file: File) => file.webkitRelativePath || file.name;
+
+/**
+ * Queues images through the detection worker with bounded concurrency.
+ * Failures are recorded on the item and never stop the rest of the batch.
+ */
+export const useBatchProcessor = (
+  clientRef: RefObject<DetectorClient | null>,
+  settingsRef: RefObject<BatchSettings>,
+) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [state, setState] = useState<BatchState>('idle');
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+
+  const queueRef = useRef<BatchItem[]>([]);
+  const activeJobsRef = useRef(new Map<string, number | null>());
+  const stateRef = useRef<BatchState>('idle');
+  const concurrencyRef = useRef(concurrency);
+  concurrencyRef.current = concurrency;
+  const itemsRef = useRef<BatchItem[]>([]);
+  itemsRef.current = items;
+
+  const changeState = (next: BatchState) => {
+    stateRef.current = next;
+    setState(next);
+  };
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  // `settings` and `run` are taken when the item is dispatched, so a model change mid-batch cannot relabel it
+  const processItem = async (item: BatchItem, settings: BatchSettings, run: DetectionRun) => {
+    const client = clientRef.current;
+    if (!client) throw new Error('Model is not loaded.');
+    const { detectOptions, tiling, input } = settings;
+    // Tiling works on the original pixels; only a whole-image pass is downscaled
+    const { bitmap, mapping } = await decodeForDetection(item.file, item.name, tiling.enabled ? { ...input, maxSide: 0 } : input);
+    // Boxes are normalized, so exports read them against the original (upright) size
+    const size = { width: mapping.originalWidth, height: mapping.originalHeight };
+    const isCancelled = () => stateRef.current !== 'running' && stateRef.current !== 'paused';
+    if (isCancelled()) {
+      bitmap.close();
+      throw new DetectionCancelledError(-1);
+    }
+    let detections: DetectionResult[];
+    if (tiling.enabled) {
+      detections = await detectTiled(client, bitmap, detectOptions, tiling, {
+        onJob: (jobId) => activeJobsRef.current.set(item.id, jobId),
+        isCancelled,
+      });
+    } else {
+      const job = client.detect(bitmap, detectOptions);
+      activeJobsRef.current.set(item.id, job.id);
+      detections = await job.result;
+    }
+    // Jobs still queued in the worker run on whatever model it switched to, so analyze the item again
+    if (settingsRef.current!.model.id !== run.modelId) {
+      updateItem(item.id, { status: 'queued' });
+      queueRef.current.unshift(item);
+      return;
+    }
+    updateItem(item.id, { status: 'done', detections, run, ...size });
+  };
+
+  const pump = useCallback(() => {
+    if (stateRef.current !== 'running') return;
+    while (queueRef.current.length > 0 && activeJobsRef.current.size < concurrencyRef.current) {
+      const item = queueRef.current.shift()!;
+      activeJobsRef.current.set(item.id, null);
+      updateItem(item.id, { status: 'processing' });
+      const settings = settingsRef.current!;
+      const run = createRun(settings.model, settings.detectOptions, settings.postProcess, settings.tiling, settings.runtime);
+      processItem(item, settings, run)
+        .catch((err) => {
+          if (err instanceof DetectionCancelledError) {
+            updateItem(item.id, { status: 'cancelled' });
+          } else {
+            console.error(`Batch item ${item.name} failed:`, err);
+            updateItem(item.id, { status: 'error', error: err instanceof Error ? err.message : String(err) });
+          }
+        })
+        .finally(() => {
+          activeJobsRef.current.delete(item.id);
+          if (queueRef.current.length === 0 && activeJobsRef.current.size === 0 && stateRef.current === 'running') {
+            changeState('done');
+          } else {
+            pump();
+          }
+        });
+    }
+  }, []);
+
+  const addFiles = useCallback((files: FileList | File[]) => {
+    const added: BatchItem[] = Array.from(files)
+      .filter(isImageFile)
+      .map((file) => ({
+        id: `batch-${++batchItemSeq}`,
+        name: displayName(file),
+        file,
+        src: URL.createObjectURL(file),
+        status: 'queued',
+        detections: [],
+      }));
+    if (added.length === 0) return 0;
+    setItems((prev) => [...prev, ...added]);
+    queueRef.current.push(...added);
+    if (stateRef.current === 'idle' || stateRef.current === 'done') changeState('running');
+    pump();
+    return added.length;
+  }, [pump]);
+
+  const pause = useCallback(() => {
+    if (stateRef.current === 'running') changeState('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    if (stateRef.current !== 'paused') return;
+    changeState('running');
+    pump();
+    // Nothing left to do while paused: finish right away
+    if (queueRef.current.length === 0 && activeJobsRef.current.size === 0) changeState('done');
+  }, [pump]);
+
+  const cancel = useCallback(() => {
+    const cancelled = new Set(queueRef.current.map((item) => item.id));
+    queueRef.current = [];
+    changeState('done');
+    activeJobsRef.current.forEach((jobId) => {
+      if (jobId !== null) clientRef.current?.cancel(jobId);
+    });
+    setItems((prev) => prev.map((item) => (cancelled.has(item.id) ? { ...item, status: 'cancelled' } : item)));
+  }, [clientRef]);
+
+  const clear = useCallback(() => {
+    cancel();
+    itemsRef.current.forEach((item) => URL.revokeObjectURL(item.src));
+    setItems([]);
+    changeState('idle');
+  }, [cancel]);
+
+  // Retries failed and cancelled items with the current model and settings
+  const retry = useCallback(() => {
+    const again = itemsRef.current.filter((item) => item.status === 'error' || item.status === 'cancelled');
+    if (again.length === 0) return;
+    const ids = new Set(again.map((item) => item.id));
+    setItems((prev) => prev.map((item) => (ids.has(item.id) ? { ...item, status: 'queued', error: undefined } : item)));
+    queueRef.current.push(...again);
+    changeState('running');
+    pump();
+  }, [pump]);
+
+  useEffect(() => () => itemsRef.current.forEach((item) => URL.revokeObjectURL(item.src)), []);
+
+  return { items, state, concurrency, setConcurrency, addFiles, pause, resume, cancel, clear, retry };
+};
+
+export type BatchProcessor = ReturnType<typeof useBatchProcessor>;
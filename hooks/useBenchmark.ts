@@ -0,0 +1,181 @@
+import { useState, useRef, useCallback, useEffect, RefObject } from 'react';
+import { DetectOptions, ModelEntry, ModelSource, PostProcessSettings, RuntimeSettings, ZeroShotQuery } from '../types';
+import { DetectorClient, DetectionCancelledError, createDetectorClient } from '../services/detectorClient';
+import { isSegmentation, isZeroShot } from '../modelRegistry';
+import { INFERENCE_FLOOR, applyPostProcessing } from '../utils/postprocess';
+import { AppError, toAppError } from '../utils/errors';
+import { ImageInputSettings, SAMPLE_IMAGE_URL, decodeForDetection, fetchImageUrl } from '../utils/imageInput';
+import {
+  BenchmarkImage,
+  BenchmarkRun,
+  BenchmarkStage,
+  MAX_SAVED_RUNS,
+  createBenchmarkId,
+  loadBenchmarkRuns,
+  readHeapUsed,
+  saveBenchmarkRuns,
+  summarizeLatency,
+} from '../utils/benchmark';
+
+export interface BenchmarkConfig {
+  model: ModelEntry;
+  runtime: RuntimeSettings;
+  warmup: number;
+  iterations: number;
+  imageSet: BenchmarkRun['imageSet'];
+  // Used when imageSet is 'custom'
+  files: File[];
+}
+
+// Settings shared with the viewer, so a benchmark measures what the app would do
+interface BenchmarkContext {
+  source: ModelSource;
+  queries: ZeroShotQuery[];
+  postProcess: PostProcessSettings;
+  input: ImageInputSettings;
+}
+
+export interface BenchmarkProgress {
+  phase: 'loading' | 'warmup' | 'measuring';
+  done: number;
+  total: number;
+}
+
+type Sample = Record<BenchmarkStage, number>;
+
+/**
+ * Runs benchmarks in a worker of their own, so the model in the viewer stays loaded and
+ * every run starts from a cold session. Each inference is split into stages: decoding and
+ * resizing on this thread plus the processor in the worker count as pre-processing, the
+ * model call and the message round trip as inference, and output decoding plus the
+ * client-side filters as post-processing.
+ */
+export const useBenchmark = (contextRef: RefObject<BenchmarkContext>) => {
+  const [runs, setRuns] = useState<BenchmarkRun[]>(loadBenchmarkRuns);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
+  const clientRef = useRef<DetectorClient | null>(null);
+  const cancelledRef = useRef(false);
+
+  useEffect(() => {
+    saveBenchmarkRuns(runs);
+  }, [runs]);
+
+  const measure = async (client: DetectorClient, config: BenchmarkConfig): Promise<BenchmarkRun> => {
+    const { model, runtime, warmup, iterations, imageSet, files } = config;
+    const { source, queries, postProcess, input } = contextRef.current!;
+    const images = imageSet === 'sample' ? [await fetchImageUrl(SAMPLE_IMAGE_URL)] : files.map((file) => ({ blob: file as Blob, name: file.name }));
+    const options: DetectOptions = {
+      threshold: isSegmentation(model) ? model.defaultThreshold : INFERENCE_FLOOR,
+      percentage: true,
+      queries: isZeroShot(model) ? queries : undefined,
+    };
+    const filters: PostProcessSettings = { ...postProcess, queries: options.queries };
+    let peakHeap = readHeapUsed();
+    const sampleHeap = () => {
+      const used = readHeapUsed();
+      if (used !== null) peakHeap = Math.max(peakHeap ?? 0, used);
+    };
+
+    setProgress({ phase: 'loading', done: 0, total: 0 });
+    const loadStart = performance.now();
+    const loaded = await client.load(model.id, model.task, source, runtime);
+    const loadMs = performance.now() - loadStart;
+    sampleHeap();
+
+    const results: BenchmarkImage[] = images.map(({ name }) => ({ name, width: 0, height: 0, detections: 0 }));
+    const runImage = async (index: number): Promise<Sample> => {
+      const { blob, name } = images[index];
+      const start = performance.now();
+      const { bitmap, mapping } = await decodeForDetection(blob, name, input);
+      const decoded = performance.now();
+      const { detections, timing } = await client.detectTimed(bitmap, options);
+      const received = performance.now();
+      const kept = applyPostProcessing(detections, filters);
+      const end = performance.now();
+      sampleHeap();
+      results[index] = { name, width: mapping.width, height: mapping.height, detections: kept.length };
+      const preprocess = decoded - start + timing.preprocess;
+      const postprocess = timing.postprocess + (end - received);
+      return { preprocess, inference: end - start - preprocess - postprocess, postprocess, total: end - start };
+    };
+
+    let firstInferenceMs: number | null = null;
+    const samples: Sample[] = [];
+    const passes = [...Array(warmup).fill('warmup'), ...Array(iterations).fill('measuring')] as BenchmarkProgress['phase'][];
+    const total = passes.length * images.length;
+    for (let pass = 0; pass < passes.length; pass++) {
+      for (let index = 0; index < images.length; index++) {
+        if (cancelledRef.current) throw new DetectionCancelledError(-1);
+        setProgress({ phase: passes[pass], done: pass * images.length + index, total });
+        const sample = await runImage(index);
+        firstInferenceMs ??= sample.total;
+        if (passes[pass] === 'measuring') samples.push(sample);
+      }
+    }
+
+    const summarize = (stage: BenchmarkStage) => summarizeLatency(samples.map((sample) => sample[stage]));
+    return {
+      id: createBenchmarkId(),
+      createdAt: Date.now(),
+      modelId: model.id,
+      modelName: model.name,
+      task: model.task,
+      requestedRuntime: runtime,
+      runtime: loaded.runtime,
+      origin: loaded.origin,
+      imageSet,
+      images: results,
+      maxSide: input.maxSide,
+      warmup,
+      iterations,
+      loadMs,
+      firstInferenceMs: firstInferenceMs ?? 0,
+      latency: {
+        preprocess: summarize('preprocess'),
+        inference: summarize('inference'),
+        postprocess: summarize('postprocess'),
+        total: summarize('total'),
+      },
+      peakHeapBytes: peakHeap,
+      detectionsPerImage: results.reduce((sum, image) => sum + image.detections, 0) / Math.max(1, results.length),
+      userAgent: navigator.userAgent,
+    };
+  };
+
+  const start = useCallback(async (config: BenchmarkConfig) => {
+    if (clientRef.current || (config.imageSet === 'custom' && config.files.length === 0)) return;
+    cancelledRef.current = false;
+    setError(null);
+    const client = createDetectorClient();
+    clientRef.current = client;
+    try {
+      const run = await measure(client, config);
+      setRuns((prev) => [...prev, run].slice(-MAX_SAVED_RUNS));
+    } catch (err) {
+      if (!(err instanceof DetectionCancelledError) && !cancelledRef.current) {
+        console.error('Benchmark failed:', err);
+        setError(toAppError(err, 'inference'));
+      }
+    } finally {
+      client.dispose();
+      clientRef.current = null;
+      setProgress(null);
+    }
+  }, []);
+
+  // Disposing rejects whatever the worker is doing, including a model download
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    clientRef.current?.dispose();
+  }, []);
+
+  const remove = useCallback((id: string) => setRuns((prev) => prev.filter((run) => run.id !== id)), []);
+  const clear = useCallback(() => setRuns([]), []);
+
+  useEffect(() => () => clientRef.current?.dispose(), []);
+
+  return { runs, progress, running: progress !== null, error, dismissError: () => setError(null), start, cancel, remove, clear };
+};
+
+export type Benchmark = ReturnType<typeof useBenchmark>;
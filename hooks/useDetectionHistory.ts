@@ -0,0 +1,103 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DetectionResult, DetectionRun, HistoryEntry, PostProcessSettings } from '../types';
+import {
+  clearHistory,
+  createThumbnail,
+  deleteHistoryEntry,
+  describeStorageError,
+  listHistoryEntries,
+  loadHistoryImage,
+  saveHistoryEntry,
+} from '../utils/historyStore';
+
+export interface HistoryInput {
+  name: string;
+  // The image itself, or a URL to read it from (snapshot data URLs, which are never revoked)
+  image: Blob | string;
+  run: DetectionRun;
+  postProcess: PostProcessSettings;
+  rawDetections: DetectionResult[];
+  detections: DetectionResult[];
+}
+
+let historyIdSeq = 0;
+
+const fetchImage = async (src: string) => {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Failed to read the image for the history (${response.status})`);
+  return response.blob();
+};
+
+/**
+ * Local analysis history in IndexedDB. Everything stays in this browser profile;
+ * the storage estimate covers the whole origin, model cache included.
+ */
+export const useDetectionHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listHistoryEntries());
+      setStorage(navigator.storage?.estimate ? await navigator.storage.estimate() : null);
+    } catch (err) {
+      console.error('Could not read the history:', err);
+      setError(describeStorageError(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Failures are reported in the history panel; they never interrupt the analysis itself
+  const save = useCallback(async (input: HistoryInput) => {
+    try {
+      const image = typeof input.image === 'string' ? await fetchImage(input.image) : input.image;
+      const { thumbnail, width, height } = await createThumbnail(image, input.detections);
+      const entry: HistoryEntry = {
+        id: `history-${Date.now().toString(36)}-${++historyIdSeq}`,
+        name: input.name,
+        timestamp: input.run.timestamp,
+        width,
+        height,
+        run: input.run,
+        postProcess: input.postProcess,
+        rawDetections: input.rawDetections,
+        detections: input.detections,
+        thumbnail,
+        bytes: image.size + thumbnail.size,
+      };
+      await saveHistoryEntry(entry, image);
+      setError(null);
+    } catch (err) {
+      console.error('Could not save to the history:', err);
+      setError(describeStorageError(err));
+    }
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+    } catch (err) {
+      setError(describeStorageError(err));
+    }
+    await refresh();
+  }, [refresh]);
+
+  const clear = useCallback(async () => {
+    try {
+      await clearHistory();
+      setError(null);
+    } catch (err) {
+      setError(describeStorageError(err));
+    }
+    await refresh();
+  }, [refresh]);
+
+  return { entries, storage, error, save, remove, clear, loadImage: loadHistoryImage };
+};
+
+export type DetectionHistory = ReturnType<typeof useDetectionHistory>;
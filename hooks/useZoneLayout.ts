@@ -0,0 +1,63 @@
+import { useState, useCallback } from 'react';
+import { Point, ZoneLayout } from '../types';
+import { EMPTY_LAYOUT, createLayoutId } from '../utils/zones';
+
+export type ZoneTool = 'zone' | 'line';
+
+/**
+ * Zone and tripwire layout shared by the image, video and live views, plus the drawing
+ * tool currently armed. The views only read it; drawing goes through these actions.
+ */
+export const useZoneLayout = () => {
+  const [layout, setLayout] = useState<ZoneLayout>(EMPTY_LAYOUT);
+  const [tool, setTool] = useState<ZoneTool | null>(null);
+
+  const addZone = useCallback((points: Point[]) => {
+    setLayout((prev) => ({
+      ...prev,
+      zones: [...prev.zones, { id: createLayoutId('zone'), name: `Zone ${prev.zones.length + 1}`, points }],
+    }));
+    setTool(null);
+  }, []);
+
+  const addLine = useCallback((start: Point, end: Point) => {
+    setLayout((prev) => ({
+      ...prev,
+      lines: [...prev.lines, { id: createLayoutId('line'), name: `Line ${prev.lines.length + 1}`, start, end }],
+    }));
+    setTool(null);
+  }, []);
+
+  const rename = useCallback((id: string, name: string) => {
+    setLayout((prev) => ({
+      zones: prev.zones.map((zone) => (zone.id === id ? { ...zone, name } : zone)),
+      lines: prev.lines.map((line) => (line.id === id ? { ...line, name } : line)),
+    }));
+  }, []);
+
+  // Swaps start and end, which swaps what counts as forward
+  const reverseLine = useCallback((id: string) => {
+    setLayout((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line) => (line.id === id ? { ...line, start: line.end, end: line.start } : line)),
+    }));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setLayout((prev) => ({
+      zones: prev.zones.filter((zone) => zone.id !== id),
+      lines: prev.lines.filter((line) => line.id !== id),
+    }));
+  }, []);
+
+  const replace = useCallback((next: ZoneLayout) => {
+    setLayout(next);
+    setTool(null);
+  }, []);
+
+  const isEmpty = layout.zones.length === 0 && layout.lines.length === 0;
+
+  return { layout, isEmpty, tool, setTool, addZone, addLine, rename, reverseLine, remove, replace };
+};
+
+export type ZoneLayoutState = ReturnType<typeof useZoneLayout>;
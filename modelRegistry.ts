@@ -0,0 +1,127 @@
+import { ModelEntry } from './types';
+
+// The 80 COCO 2017 detection classes, as named in the DETR/YOLOS id2label configs
+export const COCO_LABELS = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat', 'traffic light',
+  'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat', 'dog', 'horse', 'sheep', 'cow',
+  'elephant', 'bear', 'zebra', 'giraffe', 'backpack', 'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee',
+  'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove', 'skateboard', 'surfboard',
+  'tennis racket', 'bottle', 'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple',
+  'sandwich', 'orange', 'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch',
+  'potted plant', 'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse', 'remote', 'keyboard',
+  'cell phone', 'microwave', 'oven', 'toaster', 'sink', 'refrigerator', 'book', 'clock', 'vase',
+  'scissors', 'teddy bear', 'hair drier', 'toothbrush',
+];
+
+// The 53 COCO panoptic "stuff" classes, as named in the DETR panoptic id2label config
+export const COCO_STUFF_LABELS = [
+  'banner', 'blanket', 'bridge', 'cardboard', 'counter', 'curtain', 'door-stuff', 'floor-wood', 'flower', 'fruit',
+  'gravel', 'house', 'light', 'mirror-stuff', 'net', 'pillow', 'platform', 'playingfield', 'railroad', 'river',
+  'road', 'roof', 'sand', 'sea', 'shelf', 'snow', 'stairs', 'tent', 'towel', 'wall-brick',
+  'wall-stone', 'wall-tile', 'wall-wood', 'water-other', 'window-blind', 'window-other', 'tree-merged', 'fence-merged', 'ceiling-merged', 'sky-other-merged',
+  'cabinet-merged', 'table-merged', 'floor-other-merged', 'pavement-merged', 'mountain-merged', 'grass-merged', 'dirt-merged', 'paper-merged', 'food-other-merged', 'building-other-merged',
+  'rock-merged', 'wall-other-merged', 'rug-merged',
+];
+
+export const MODEL_REGISTRY: ModelEntry[] = [
+  {
+    id: 'Xenova/detr-resnet-50',
+    name: 'DETR ResNet-50',
+    task: 'object-detection',
+    sizeMB: 44,
+    defaultThreshold: 0.5,
+    labels: COCO_LABELS,
+    license: 'Apache-2.0',
+  },
+  {
+    id: 'Xenova/detr-resnet-101',
+    name: 'DETR ResNet-101',
+    task: 'object-detection',
+    sizeMB: 63,
+    defaultThreshold: 0.5,
+    labels: COCO_LABELS,
+    license: 'Apache-2.0',
+  },
+  {
+    id: 'Xenova/yolos-tiny',
+    name: 'YOLOS Tiny',
+    task: 'object-detection',
+    sizeMB: 8,
+    defaultThreshold: 0.4,
+    labels: COCO_LABELS,
+    license: 'Apache-2.0',
+  },
+  {
+    id: 'Xenova/yolos-small',
+    name: 'YOLOS Small',
+    task: 'object-detection',
+    sizeMB: 31,
+    defaultThreshold: 0.5,
+    labels: COCO_LABELS,
+    license: 'Apache-2.0',
+  },
+  {
+    id: 'Xenova/owlvit-base-patch32',
+    name: 'OWL-ViT Base/32',
+    task: 'zero-shot-object-detection',
+    sizeMB: 155,
+    defaultThreshold: 0.1,
+    labels: [],
+    license: 'Apache-2.0',
+  },
+  {
+    id: 'onnx-community/owlv2-base-patch16-ensemble',
+    name: 'OWLv2 Base/16',
+    task: 'zero-shot-object-detection',
+    sizeMB: 160,
+    defaultThreshold: 0.2,
+    labels: [],
+    license: 'Apache-2.0',
+  },
+  {
+    id: 'Xenova/detr-resnet-50-panoptic',
+    name: 'DETR ResNet-50 Panoptic',
+    task: 'image-segmentation',
+    sizeMB: 43,
+    defaultThreshold: 0.5,
+    labels: [...COCO_LABELS, ...COCO_STUFF_LABELS],
+    license: 'Apache-2.0',
+  },
+];
+
+export const DEFAULT_MODEL_ID = 'Xenova/detr-resnet-50';
+
+const STORAGE_KEY = 'objectsense.model';
+
+export const getModelEntry = (id: string): ModelEntry | undefined =>
+  MODEL_REGISTRY.find((entry) => entry.id === id);
+
+export const isZeroShot = (entry: ModelEntry) => entry.task === 'zero-shot-object-detection';
+
+export const isSegmentation = (entry: ModelEntry) => entry.task === 'image-segmentation';
+
+// The next size down with the same task, for when a model does not fit in memory
+export const findSmallerModel = (entry: ModelEntry): ModelEntry | undefined =>
+  MODEL_REGISTRY.filter((other) => other.task === entry.task && other.sizeMB < entry.sizeMB)
+    .sort((a, b) => b.sizeMB - a.sizeMB)[0];
+
+export const modelUrl = (entry: ModelEntry) => `https://huggingface.co/${entry.id}`;
+
+// Falls back to the default when nothing (or an id no longer in the registry) was stored
+export const loadPreferredModel = (): ModelEntry => {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // Storage can be unavailable (privacy mode, sandboxed iframe)
+  }
+  return getModelEntry(stored ?? '') ?? getModelEntry(DEFAULT_MODEL_ID)!;
+};
+
+export const savePreferredModel = (entry: ModelEntry) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, entry.id);
+  } catch {
+    // Not being able to remember the choice is harmless
+  }
+};
@@ -0,0 +1,47 @@
+// Service worker for offline use. The build writes precache-manifest.json, listing every
+// emitted file (scripts, styles, fonts, the ONNX runtime wasm); all of it is cached on
+// install so the app can start without a network.
+const SHELL_CACHE_PREFIX = 'objectsense-shell-';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+      const { version, files } = await response.json();
+      const cache = await caches.open(SHELL_CACHE_PREFIX + version);
+      await cache.addAll(['/', ...files.map((file) => `/${file}`)]);
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const response = await fetch('/precache-manifest.json', { cache: 'no-store' }).catch(() => null);
+      const current = response ? SHELL_CACHE_PREFIX + (await response.json()).version : null;
+      for (const name of await caches.keys()) {
+        if (current && name.startsWith(SHELL_CACHE_PREFIX) && name !== current) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: prefer the network so deployments show up, fall back to the cached shell offline
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(async () => (await caches.match('/')) ?? Response.error()));
+    return;
+  }
+
+  if (url.pathname === '/precache-manifest.json') return;
+
+  // Everything else is cache-first. caches.match searches every bucket, so model files
+  // transformers.js stored in 'transformers-cache' are served offline as well
+  event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)));
+});
@@ -0,0 +1,179 @@
+import {
+  DetectionResult,
+  DetectOptions,
+  LoadResult,
+  ModelSource,
+  ModelTask,
+  ProgressMessage,
+  RuntimeSettings,
+  StageTiming,
+  WorkerRequest,
+  WorkerResponse,
+} from '../types';
+import { AppError, ERROR_INFO, classifyError } from '../utils/errors';
+
+export class DetectionCancelledError extends Error {
+  constructor(id: number) {
+    super(`Detection request ${id} was cancelled`);
+    this.name = 'DetectionCancelledError';
+  }
+}
+
+export interface DetectionJob {
+  id: number;
+  // Rejects with DetectionCancelledError when the job is cancelled before its result arrives
+  result: Promise<DetectionResult[]>;
+}
+
+export interface TimedDetection {
+  detections: DetectionResult[];
+  timing: StageTiming;
+}
+
+export interface DetectorClient {
+  // Resolves with where the weights were read from and the runtime they ended up on
+  load: (model: string, task: ModelTask, source: ModelSource, runtime: RuntimeSettings) => Promise<LoadResult>;
+  // Ownership of the bitmap is transferred to the worker; do not use it afterwards
+  detect: (image: ImageBitmap, options: DetectOptions) => DetectionJob;
+  // Same as detect, but also reports where the worker spent its time
+  detectTimed: (image: ImageBitmap, options: DetectOptions) => Promise<TimedDetection>;
+  cancel: (id: number) => void;
+  dispose: () => void;
+}
+
+interface Pending<T> {
+  resolve: (value: T) => void;
+  reject: (reason: Error) => void;
+}
+
+type LoadRequest = Extract<WorkerRequest, { type: 'load' }>;
+
+const spawnWorker = () => new Worker(new URL('../workers/detector.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Spawns the detection worker and wraps its message protocol in promises.
+ * Every request carries an id so late or cancelled replies can be told apart.
+ * A worker that dies is replaced and given the last model again, so one failed
+ * image does not leave the app without a model. Errors that belong to no request,
+ * such as a model that could not be restarted, go to `onError`.
+ */
+export const createDetectorClient = (
+  onProgress?: (message: ProgressMessage) => void,
+  onError?: (error: AppError) => void,
+): DetectorClient => {
+  let worker = spawnWorker();
+  // Kept apart by reply type, so each reply resolves only what its requests expect
+  const pendingLoads = new Map<number, Pending<LoadResult>>();
+  const pendingDetections = new Map<number, Pending<TimedDetection>>();
+  let nextId = 1;
+  let disposed = false;
+  let lastLoad: LoadRequest | null = null;
+
+  const send = (message: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  const settle = <T>(pending: Map<number, Pending<T>>, id: number, settleWith: (p: Pending<T>) => void) => {
+    const entry = pending.get(id);
+    if (!entry) return;
+    pending.delete(id);
+    settleWith(entry);
+  };
+
+  const rejectRequest = (id: number, reason: Error) => {
+    settle(pendingLoads, id, (p) => p.reject(reason));
+    settle(pendingDetections, id, (p) => p.reject(reason));
+  };
+
+  const rejectAll = (reason: (id: number) => Error) => {
+    pendingLoads.forEach((p, id) => p.reject(reason(id)));
+    pendingDetections.forEach((p, id) => p.reject(reason(id)));
+    pendingLoads.clear();
+    pendingDetections.clear();
+  };
+
+  const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'progress':
+        onProgress?.(message);
+        break;
+      case 'loaded':
+        settle(pendingLoads, message.id, (p) => p.resolve(message.result));
+        break;
+      case 'result':
+        settle(pendingDetections, message.id, (p) => p.resolve({ detections: message.detections, timing: message.timing }));
+        break;
+      case 'cancelled':
+        rejectRequest(message.id, new DetectionCancelledError(message.id));
+        break;
+      case 'error': {
+        const error = new AppError(message.kind, ERROR_INFO[message.kind].message, message.message);
+        if (message.id !== undefined) rejectRequest(message.id, error);
+        else onError?.(error);
+        break;
+      }
+      case 'disposed':
+        worker.terminate();
+        break;
+    }
+  };
+
+  const handleCrash = (event: ErrorEvent) => {
+    const detail = event.message || 'Detector worker crashed';
+    const kind = classifyError(detail, 'out-of-memory');
+    rejectAll(() => new AppError(kind, ERROR_INFO[kind].message, detail));
+    worker.terminate();
+    if (disposed) return;
+    attach(spawnWorker());
+    // Nobody waits on this load: the replacement simply picks up where the old worker was
+    if (lastLoad) send({ ...lastLoad, id: nextId++ });
+  };
+
+  const attach = (next: Worker) => {
+    worker = next;
+    worker.onmessage = handleMessage;
+    worker.onerror = handleCrash;
+  };
+  attach(worker);
+
+  const request = <T>(pending: Map<number, Pending<T>>, build: (id: number) => WorkerRequest, transfer?: Transferable[]) => {
+    const id = nextId++;
+    const promise = new Promise<T>((resolve, reject) => {
+      if (disposed) {
+        reject(new Error('Detector client has been disposed'));
+        return;
+      }
+      pending.set(id, { resolve, reject });
+      send(build(id), transfer);
+    });
+    return { id, promise };
+  };
+
+  return {
+    load: (model, task, source, runtime) => request(pendingLoads, (id) => {
+      lastLoad = { type: 'load', id, model, task, source, runtime };
+      return lastLoad;
+    }).promise,
+
+    detect: (image, options) => {
+      const { id, promise } = request(pendingDetections, (id) => ({ type: 'detect', id, image, options }), [image]);
+      return { id, result: promise.then((result) => result.detections) };
+    },
+
+    detectTimed: (image, options) =>
+      request(pendingDetections, (id) => ({ type: 'detect', id, image, options }), [image]).promise,
+
+    cancel: (id) => {
+      if (!pendingDetections.has(id)) return;
+      // Reject right away so callers never wait on a result that is going to be discarded
+      settle(pendingDetections, id, (p) => p.reject(new DetectionCancelledError(id)));
+      send({ type: 'cancel', id });
+    },
+
+    dispose: () => {
+      if (disposed) return;
+      disposed = true;
+      rejectAll((id) => new DetectionCancelledError(id));
+      send({ type: 'dispose' });
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { DetectionResult, DetectOptions, TilingSettings } from '../types';
+import { DetectorClient, DetectionCancelledError } from './detectorClient';
+import { Tile, computeTiles, mergeDetections, tileBoxToImage } from '../utils/tiling';
+
+export interface TiledDetectionHooks {
+  // Called with every tile's job id, so the caller can cancel the tile in flight
+  onJob?: (jobId: number) => void;
+  onProgress?: (done: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+// Tiles first, then the full image when requested and it is not already a single tile
+export const planTiles = (width: number, height: number, tiling: TilingSettings): Tile[] => {
+  const tiles = computeTiles(width, height, tiling.tileSize, tiling.overlap);
+  return tiling.includeFullImage && tiles.length > 1 ? [...tiles, { x: 0, y: 0, width, height }] : tiles;
+};
+
+/**
+ * Runs the detector on every tile of the image one after another and merges the results
+ * into full-image normalized boxes. Takes ownership of `image` and closes it.
+ */
+export const detectTiled = async (
+  client: DetectorClient,
+  image: ImageBitmap,
+  options: DetectOptions,
+  tiling: TilingSettings,
+  hooks: TiledDetectionHooks = {},
+): Promise<DetectionResult[]> => {
+  const { width, height } = image;
+  const tiles = planTiles(width, height, tiling);
+  const collected: DetectionResult[] = [];
+  try {
+    for (let i = 0; i < tiles.length; i++) {
+      if (hooks.isCancelled?.()) throw new DetectionCancelledError(-1);
+      const tile = tiles[i];
+      const crop = await createImageBitmap(image, tile.x, tile.y, tile.width, tile.height);
+      const job = client.detect(crop, options);
+      hooks.onJob?.(job.id);
+      const detections = await job.result;
+      collected.push(...detections.map((det) => ({ ...det, box: tileBoxToImage(det.box, tile, width, height) })));
+      hooks.onProgress?.(i + 1, tiles.length);
+    }
+  } finally {
+    image.close();
+  }
+  return mergeDetections(collected, tiling.merge, tiling.mergeThreshold);
+};
@@ -9,6 +9,47 @@ export interface DetectionResult {
   box: BoundingBox;
   label: string;
   score: number;
+  // Set on boxes moved, resized, relabelled or drawn by hand; absent on raw model predictions
+  edited?: boolean;
+}
+
+// Pixel mask of one segment, cropped to its bounding box to keep results small
+export interface SegmentMask {
+  // Crop origin and size in pixels of the analyzed image
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Size of the analyzed image, needed to place the crop and to compute coverage
+  imageWidth: number;
+  imageHeight: number;
+  // Row-major, one byte per pixel: 1 inside the segment, 0 outside
+  data: Uint8Array;
+}
+
+// Output of segmentation models: a regular detection (box around the mask) plus the mask itself
+export interface SegmentationResult extends DetectionResult {
+  mask: SegmentMask;
+  // Pixels covered by the mask
+  area: number;
+}
+
+// A detection linked across video frames; `trackId` is stable for as long as the tracker follows the object
+export interface TrackedDetection extends DetectionResult {
+  trackId: number;
+}
+
+// Raw model output for one sampled video frame
+export interface VideoFrameResult {
+  // Seconds from the start of the video
+  time: number;
+  detections: DetectionResult[];
+}
+
+// A labelled reference box (normalized like DetectionResult) used for evaluation
+export interface GroundTruthBox {
+  box: BoundingBox;
+  label: string;
 }
 
 export enum AppStatus {
@@ -18,6 +59,228 @@ export enum AppStatus {
   ERROR = 'ERROR',
 }
 
-export interface PipelineType {
-  (image: string | HTMLImageElement, options?: any): Promise<DetectionResult[]>;
-}
\ No newline at end of file
+export interface ZeroShotQuery {
+  label: string;
+  // Minimum score for detections of this query
+  threshold: number;
+}
+
+export interface DetectOptions {
+  threshold: number;
+  percentage: boolean;
+  // Candidate labels for zero-shot models; ignored by fixed-class models
+  queries?: ZeroShotQuery[];
+}
+
+// Client-side filtering applied to raw model output; changing it never re-runs inference
+export interface PostProcessSettings {
+  threshold: number;
+  // Per-query minimum scores for zero-shot runs, applied before label remapping
+  queries?: ZeroShotQuery[];
+  excludedLabels: string[];
+  nms: boolean;
+  nmsIou: number;
+  // Box area bounds as a fraction of the image area (0-1)
+  minArea: number;
+  maxArea: number;
+  // 0 keeps everything
+  topK: number;
+  // Original label -> user taxonomy label
+  labelMap: Record<string, string>;
+}
+
+export type MergeMethod = 'nms' | 'wbf';
+
+// Sliced inference for large images; tiles are cut and merged on the UI thread
+export interface TilingSettings {
+  enabled: boolean;
+  // Tile edge in pixels of the original image
+  tileSize: number;
+  // Fraction of a tile shared with its neighbour (0-0.5)
+  overlap: number;
+  // Also run on the downscaled full image, which catches objects larger than a tile
+  includeFullImage: boolean;
+  merge: MergeMethod;
+  // Same-label boxes overlapping more than this (intersection over the smaller box) are one object
+  mergeThreshold: number;
+}
+
+// One saved analysis. The image itself is stored separately and only read when reopened.
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  timestamp: number;
+  width: number;
+  height: number;
+  run: DetectionRun;
+  postProcess: PostProcessSettings;
+  rawDetections: DetectionResult[];
+  // What was shown when the analysis finished, after filters
+  detections: DetectionResult[];
+  thumbnail: Blob;
+  // Size of the stored image
+  bytes: number;
+}
+
+// Normalized image coordinates, like BoundingBox
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Named polygon; an object is inside when its box centroid is
+export interface Zone {
+  id: string;
+  name: string;
+  points: Point[];
+}
+
+// Directional tripwire. Crossing towards the right-hand side of start -> end counts as forward.
+export interface CountingLine {
+  id: string;
+  name: string;
+  start: Point;
+  end: Point;
+}
+
+export interface ZoneLayout {
+  zones: Zone[];
+  lines: CountingLine[];
+}
+
+export type RedactionStyle = 'blur' | 'pixelate' | 'fill';
+
+export interface RedactionSettings {
+  // Detections with these labels are redacted
+  labels: string[];
+  style: RedactionStyle;
+  // Blur radius or pixel block size, as a fraction of the box's shorter side
+  strength: number;
+  // Margin added around each box, as a fraction of its width and height
+  padding: number;
+  fillColor: string;
+  stripMetadata: boolean;
+}
+
+// Everything needed to reproduce an analysis, kept next to its detections
+export interface DetectionRun {
+  modelId: string;
+  task: ModelTask;
+  threshold: number;
+  queries?: ZeroShotQuery[];
+  // Only set when the run was tiled
+  tiling?: TilingSettings;
+  // Device and dtype the model actually ran on
+  runtime?: RuntimeSettings;
+  timestamp: number;
+}
+
+// Where model weights are read from: the Hugging Face hub, a directory served next to the app, or a folder the user picked
+export type ModelSourceMode = 'hub' | 'local' | 'folder';
+
+export interface ModelFolderFile {
+  // Path inside the picked folder, without the folder name itself
+  path: string;
+  file: File;
+}
+
+export interface ModelSource {
+  mode: ModelSourceMode;
+  // Base URL for 'local' mode (transformers.js `env.localModelPath`)
+  localPath: string;
+  // Only for 'folder' mode
+  files?: ModelFolderFile[];
+}
+
+// Where the files of the last load actually came from
+export type ModelOrigin = 'cache' | 'local' | 'folder' | 'network';
+
+// ONNX runtime execution provider (transformers.js `device`)
+export type ExecutionDevice = 'wasm' | 'webgpu';
+
+// Weight precision (transformers.js `dtype`); q8 is the quantized default
+export type WeightDtype = 'fp32' | 'fp16' | 'q8' | 'q4';
+
+export interface RuntimeSettings {
+  device: ExecutionDevice;
+  dtype: WeightDtype;
+}
+
+// A runtime combination that failed to initialize, and why; the load then tried the next one
+export interface RuntimeFallback {
+  runtime: RuntimeSettings;
+  reason: string;
+}
+
+// What the model ended up running on
+export interface LoadResult {
+  origin: ModelOrigin;
+  runtime: RuntimeSettings;
+  // Empty when the requested combination worked
+  fallbacks: RuntimeFallback[];
+}
+
+// Failure categories; each maps to its own message and recovery actions
+export type ErrorKind = 'network' | 'out-of-memory' | 'unsupported-backend' | 'decode' | 'cors' | 'inference';
+
+// Messages sent from the UI thread to the detection worker
+export type WorkerRequest =
+  | { type: 'load'; id: number; model: string; task: ModelTask; source: ModelSource; runtime: RuntimeSettings }
+  | { type: 'detect'; id: number; image: ImageBitmap; options: DetectOptions }
+  | { type: 'cancel'; id: number }
+  | { type: 'dispose' };
+
+// Milliseconds one inference spent in each stage inside the worker
+export interface StageTiming {
+  // Drawing the bitmap and the model's own resize and normalization
+  preprocess: number;
+  // The model forward pass
+  inference: number;
+  // Decoding raw outputs into boxes and masks
+  postprocess: number;
+}
+
+// Messages posted back by the detection worker; `id` echoes the request it answers
+export type WorkerResponse =
+  | { type: 'progress'; model: string; status: string; file?: string; progress?: number }
+  | { type: 'loaded'; id: number; model: string; result: LoadResult }
+  | { type: 'result'; id: number; detections: DetectionResult[]; timing: StageTiming }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id?: number; kind: ErrorKind; message: string }
+  | { type: 'disposed' };
+
+export type ProgressMessage = Extract<WorkerResponse, { type: 'progress' }>;
+export type InputMode = 'image' | 'live' | 'video' | 'batch';
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  file: File;
+  // Object URL used for the thumbnail and when opening the item in the overlay view
+  src: string;
+  status: BatchItemStatus;
+  detections: DetectionResult[];
+  run?: DetectionRun;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+export type BatchState = 'idle' | 'running' | 'paused' | 'done';
+
+export type ModelTask = 'object-detection' | 'zero-shot-object-detection' | 'image-segmentation';
+
+export interface ModelEntry {
+  // Hugging Face hub id, also used as the registry key
+  id: string;
+  name: string;
+  task: ModelTask;
+  // Approximate download size of the default (quantized) weights, in megabytes
+  sizeMB: number;
+  defaultThreshold: number;
+  // Fixed class list (things and stuff for panoptic models); empty for open-vocabulary (zero-shot) models
+  labels: string[];
+  license: string;
+}
@@ -0,0 +1,59 @@
+import { BoundingBox, DetectionResult } from '../types';
+
+export type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+// Drawn boxes smaller than this (normalized, per side) are treated as a stray click
+export const MIN_BOX_SIZE = 0.01;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const boxFromPoints = (x0: number, y0: number, x1: number, y1: number): BoundingBox => ({
+  xmin: clamp01(Math.min(x0, x1)),
+  ymin: clamp01(Math.min(y0, y1)),
+  xmax: clamp01(Math.max(x0, x1)),
+  ymax: clamp01(Math.max(y0, y1)),
+});
+
+export const isTooSmall = (box: BoundingBox): boolean =>
+  box.xmax - box.xmin < MIN_BOX_SIZE || box.ymax - box.ymin < MIN_BOX_SIZE;
+
+// Translates a box, stopping at the image border instead of shrinking it
+export const moveBox = (box: BoundingBox, dx: number, dy: number): BoundingBox => {
+  const w = box.xmax - box.xmin;
+  const h = box.ymax - box.ymin;
+  const xmin = Math.min(1 - w, Math.max(0, box.xmin + dx));
+  const ymin = Math.min(1 - h, Math.max(0, box.ymin + dy));
+  return { xmin, ymin, xmax: xmin + w, ymax: ymin + h };
+};
+
+/**
+ * Moves the edges named by `handle` to the point (x, y). Dragging an edge past the
+ * opposite one flips the box rather than producing a negative size.
+ */
+export const resizeBox = (box: BoundingBox, handle: ResizeHandle, x: number, y: number): BoundingBox => {
+  let { xmin, ymin, xmax, ymax } = box;
+  if (handle.includes('w')) xmin = x;
+  if (handle.includes('e')) xmax = x;
+  if (handle.includes('n')) ymin = y;
+  if (handle.includes('s')) ymax = y;
+  return boxFromPoints(xmin, ymin, xmax, ymax);
+};
+
+export const sameBox = (a: BoundingBox, b: BoundingBox): boolean =>
+  a.xmin === b.xmin && a.ymin === b.ymin && a.xmax === b.xmax && a.ymax === b.ymax;
+
+export const markEdited = (det: DetectionResult, patch: Partial<DetectionResult>): DetectionResult => ({
+  ...det,
+  ...patch,
+  edited: true,
+});
+
+// Hand-drawn boxes have no model score; 1 keeps them above every threshold and first in score order
+export const createAnnotation = (box: BoundingBox, label: string): DetectionResult => ({
+  box,
+  label,
+  score: 1,
+  edited: true,
+});
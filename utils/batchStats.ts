@@ -0,0 +1,41 @@
+import { BatchItem } from '../types';
+
+export const SCORE_BINS = 10;
+
+export interface BatchSummary {
+  processed: number;
+  failed: number;
+  totalDetections: number;
+  // Sorted by count, most frequent label first
+  labelCounts: { label: string; count: number }[];
+  // Detection counts per score bin of width 1 / SCORE_BINS, from [0, 0.1) up to [0.9, 1]
+  scoreHistogram: number[];
+  emptyItems: BatchItem[];
+}
+
+export const summarizeBatch = (items: BatchItem[]): BatchSummary => {
+  const counts = new Map<string, number>();
+  const scoreHistogram = new Array<number>(SCORE_BINS).fill(0);
+  const emptyItems: BatchItem[] = [];
+  let processed = 0;
+  let failed = 0;
+  let totalDetections = 0;
+
+  for (const item of items) {
+    if (item.status === 'error') failed++;
+    if (item.status !== 'done') continue;
+    processed++;
+    if (item.detections.length === 0) emptyItems.push(item);
+    for (const det of item.detections) {
+      totalDetections++;
+      counts.set(det.label, (counts.get(det.label) ?? 0) + 1);
+      scoreHistogram[Math.min(SCORE_BINS - 1, Math.floor(det.score * SCORE_BINS))]++;
+    }
+  }
+
+  const labelCounts = Array.from(counts, ([label, count]) => ({ label, count })).sort(
+    (a, b) => b.count - a.count || a.label.localeCompare(b.label),
+  );
+
+  return { processed, failed, totalDetections, labelCounts, scoreHistogram, emptyItems };
+};
@@ -0,0 +1,107 @@
+import { ModelOrigin, ModelTask, RuntimeSettings } from '../types';
+
+const STORAGE_KEY = 'objectsense.benchmarks';
+// Older runs are dropped first; each run is a few hundred bytes
+export const MAX_SAVED_RUNS = 20;
+
+export const DEFAULT_WARMUP = 2;
+export const DEFAULT_ITERATIONS = 10;
+
+export type BenchmarkStage = 'preprocess' | 'inference' | 'postprocess' | 'total';
+
+export const STAGE_LABELS: Record<BenchmarkStage, string> = {
+  preprocess: 'Pre-process',
+  inference: 'Inference',
+  postprocess: 'Post-process',
+  total: 'Total',
+};
+
+export interface LatencySummary {
+  p50: number;
+  p95: number;
+  mean: number;
+}
+
+export interface BenchmarkImage {
+  name: string;
+  // Size the model was given, after the input size limit
+  width: number;
+  height: number;
+  // After post-processing, from the last measured pass
+  detections: number;
+}
+
+/**
+ * One benchmark as it is saved and exported. Times are milliseconds; every measured pass
+ * over every image contributes one latency sample.
+ */
+export interface BenchmarkRun {
+  id: string;
+  createdAt: number;
+  modelId: string;
+  modelName: string;
+  task: ModelTask;
+  requestedRuntime: RuntimeSettings;
+  // What the model actually ran on after any fallback
+  runtime: RuntimeSettings;
+  origin: ModelOrigin;
+  imageSet: 'sample' | 'custom';
+  images: BenchmarkImage[];
+  maxSide: number;
+  warmup: number;
+  iterations: number;
+  loadMs: number;
+  // The first inference after loading, warm-up or not
+  firstInferenceMs: number;
+  latency: Record<BenchmarkStage, LatencySummary>;
+  // Main-thread heap only, and only where the browser exposes it (Chromium)
+  peakHeapBytes: number | null;
+  detectionsPerImage: number;
+  userAgent: string;
+}
+
+let benchmarkIdSeq = 0;
+
+export const createBenchmarkId = () => `bench-${Date.now().toString(36)}-${++benchmarkIdSeq}`;
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+
+export const summarizeLatency = (samples: number[]): LatencySummary => {
+  if (samples.length === 0) return { p50: 0, p95: 0, mean: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    mean: samples.reduce((sum, value) => sum + value, 0) / samples.length,
+  };
+};
+
+// performance.memory is a non-standard Chromium extension
+type MemoryPerformance = Performance & { memory?: { usedJSHeapSize: number } };
+
+export const readHeapUsed = (): number | null => (performance as MemoryPerformance).memory?.usedJSHeapSize ?? null;
+
+export const loadBenchmarkRuns = (): BenchmarkRun[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((run) => run && typeof run.id === 'string' && run.latency) : [];
+  } catch {
+    // Missing, malformed or inaccessible storage all mean no saved runs
+    return [];
+  }
+};
+
+export const saveBenchmarkRuns = (runs: BenchmarkRun[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs.slice(-MAX_SAVED_RUNS)));
+  } catch {
+    // Runs stay visible for this session even if they cannot be stored
+  }
+};
+
+export const benchmarksToJson = (runs: BenchmarkRun[]) =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), runs }, null, 2);
+
+export const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${ms.toFixed(ms < 10 ? 1 : 0)} ms`);
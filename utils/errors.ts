@@ -0,0 +1,92 @@
+import { ErrorKind } from '../types';
+
+export type RecoveryAction = 'retry' | 'clear-cache' | 'smaller-model' | 'another-image';
+
+/**
+ * An error that already knows its category. `message` is written for the user; the
+ * underlying error text, when there is one, is kept in `detail`.
+ */
+export class AppError extends Error {
+  kind: ErrorKind;
+  detail?: string;
+
+  constructor(kind: ErrorKind, message: string, detail?: string) {
+    super(message);
+    this.name = 'AppError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+}
+
+interface ErrorInfo {
+  title: string;
+  // Shown when the error carries no message of its own
+  message: string;
+  actions: RecoveryAction[];
+}
+
+export const ERROR_INFO: Record<ErrorKind, ErrorInfo> = {
+  network: {
+    title: 'Download failed',
+    message: 'Some files could not be downloaded. Check the connection, or clear the cached copy if it may be damaged.',
+    actions: ['retry', 'clear-cache'],
+  },
+  'out-of-memory': {
+    title: 'Out of memory',
+    message: 'The browser ran out of memory. A smaller model, a lower precision or a smaller image needs less.',
+    actions: ['smaller-model', 'another-image', 'retry'],
+  },
+  'unsupported-backend': {
+    title: 'Runtime not supported',
+    message: 'No execution backend could start in this browser.',
+    actions: ['retry', 'smaller-model'],
+  },
+  decode: {
+    title: 'Image could not be read',
+    message: 'The file is damaged or in a format this browser cannot decode.',
+    actions: ['another-image'],
+  },
+  cors: {
+    title: 'Image blocked by its server',
+    message: 'The server does not allow this page to read the image (CORS). Download it and upload the file instead.',
+    actions: ['another-image'],
+  },
+  inference: {
+    title: 'Analysis failed',
+    message: 'The model failed on this image. It is still loaded and can analyze other images.',
+    actions: ['retry', 'another-image'],
+  },
+};
+
+export const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+  retry: 'Try again',
+  'clear-cache': 'Clear cached files',
+  'smaller-model': 'Use a smaller model',
+  'another-image': 'Choose another image',
+};
+
+const errorText = (error: unknown) => (error instanceof Error ? `${error.name}: ${error.message}` : String(error));
+
+// Checked in order; the first match wins. Messages come from fetch, onnxruntime-web and transformers.js.
+const PATTERNS: [ErrorKind, RegExp][] = [
+  ['out-of-memory', /out of memory|RangeError: Array buffer allocation|memory access out of bounds|Aborted\(\)|could not allocate|\bOOM\b|std::bad_alloc/i],
+  ['unsupported-backend', /webgpu|no available backend|backend not found|adapter|execution provider|not supported by this browser|wasm.*(not|un)supported/i],
+  ['network', /failed to fetch|networkerror|network error|could not locate file|load failed|status(?: code)? (4|5)\d\d|\b(404|500|502|503)\b|protobuf|invalid (onnx )?model/i],
+  ['decode', /decode|InvalidStateError|source image|unsupported image/i],
+];
+
+/**
+ * Sorts an arbitrary error into a kind by its text, falling back to `fallback` (the kind
+ * that fits the step that failed) when nothing matches.
+ */
+export const classifyError = (error: unknown, fallback: ErrorKind): ErrorKind => {
+  if (error instanceof AppError) return error.kind;
+  const text = errorText(error);
+  return PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? fallback;
+};
+
+export const toAppError = (error: unknown, fallback: ErrorKind): AppError => {
+  if (error instanceof AppError) return error;
+  const kind = classifyError(error, fallback);
+  return new AppError(kind, ERROR_INFO[kind].message, error instanceof Error ? error.message : String(error));
+};
@@ -0,0 +1,153 @@
+import { DetectionResult, GroundTruthBox } from '../types';
+import { iou } from './geometry';
+
+export const COCO_IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => Number((0.5 + i * 0.05).toFixed(2)));
+
+export type DetectionOutcome = 'tp' | 'fp';
+
+export interface ImageMatch {
+  // Outcome per detection, in the order of the input detections
+  outcomes: DetectionOutcome[];
+  // Ground-truth index matched by each detection, or -1
+  matchedGroundTruth: number[];
+  // Indices of ground-truth boxes no detection claimed
+  missed: number[];
+}
+
+export interface EvaluationImage {
+  detections: DetectionResult[];
+  groundTruth: GroundTruthBox[];
+}
+
+export interface ClassMetrics {
+  label: string;
+  groundTruth: number;
+  detections: number;
+  truePositives: number;
+  precision: number;
+  recall: number;
+  // AP at the configured IoU threshold
+  ap: number;
+  ap50: number;
+  // AP averaged over IoU 0.50:0.05:0.95
+  ap5095: number;
+}
+
+export interface EvaluationReport {
+  iouThreshold: number;
+  classes: ClassMetrics[];
+  map50: number;
+  map5095: number;
+  images: number;
+}
+
+/**
+ * Greedy, class-aware matching in descending score order (the COCO protocol): each detection
+ * claims the unmatched ground-truth box of the same label with the highest IoU at or above the threshold.
+ */
+export const matchImage = (
+  detections: DetectionResult[],
+  groundTruth: GroundTruthBox[],
+  iouThreshold: number,
+): ImageMatch => {
+  const outcomes: DetectionOutcome[] = new Array(detections.length).fill('fp');
+  const matchedGroundTruth: number[] = new Array(detections.length).fill(-1);
+  const taken = new Array<boolean>(groundTruth.length).fill(false);
+  const order = detections.map((_, i) => i).sort((a, b) => detections[b].score - detections[a].score);
+
+  for (const d of order) {
+    let best = -1;
+    let bestIou = iouThreshold;
+    groundTruth.forEach((gt, g) => {
+      if (taken[g] || gt.label !== detections[d].label) return;
+      const overlap = iou(detections[d].box, gt.box);
+      if (overlap >= bestIou) {
+        best = g;
+        bestIou = overlap;
+      }
+    });
+    if (best >= 0) {
+      taken[best] = true;
+      outcomes[d] = 'tp';
+      matchedGroundTruth[d] = best;
+    }
+  }
+
+  const missed = taken.flatMap((isTaken, g) => (isTaken ? [] : [g]));
+  return { outcomes, matchedGroundTruth, missed };
+};
+
+/**
+ * COCO-style 101-point interpolated average precision from a ranked list of TP/FP flags.
+ */
+export const averagePrecision = (ranked: boolean[], groundTruthCount: number): number => {
+  if (groundTruthCount === 0) return 0;
+  const precisions: number[] = [];
+  const recalls: number[] = [];
+  let tp = 0;
+  ranked.forEach((isTp, i) => {
+    if (isTp) tp++;
+    precisions.push(tp / (i + 1));
+    recalls.push(tp / groundTruthCount);
+  });
+  // Make precision monotonically decreasing (the precision envelope)
+  for (let i = precisions.length - 2; i >= 0; i--) {
+    precisions[i] = Math.max(precisions[i], precisions[i + 1]);
+  }
+  let sum = 0;
+  let k = 0;
+  for (let r = 0; r <= 100; r++) {
+    const target = r / 100;
+    while (k < recalls.length && recalls[k] < target) k++;
+    sum += k < precisions.length ? precisions[k] : 0;
+  }
+  return sum / 101;
+};
+
+// Ranks every detection of one label across all images by score and flags TPs at the given IoU
+const rankedOutcomes = (images: EvaluationImage[], label: string, iouThreshold: number): boolean[] => {
+  const scored: { score: number; tp: boolean }[] = [];
+  for (const image of images) {
+    const detections = image.detections.filter((d) => d.label === label);
+    const groundTruth = image.groundTruth.filter((g) => g.label === label);
+    const { outcomes } = matchImage(detections, groundTruth, iouThreshold);
+    detections.forEach((d, i) => scored.push({ score: d.score, tp: outcomes[i] === 'tp' }));
+  }
+  return scored.sort((a, b) => b.score - a.score).map((s) => s.tp);
+};
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+/**
+ * Per-class precision, recall and AP plus mAP@0.5 and mAP@0.5:0.95. Only labels with at least one
+ * ground-truth box take part in the means, matching the COCO evaluator.
+ */
+export const evaluateDetections = (images: EvaluationImage[], iouThreshold = 0.5): EvaluationReport => {
+  const labels = Array.from(new Set(images.flatMap((image) => image.groundTruth.map((g) => g.label)))).sort();
+
+  const classes = labels.map((label): ClassMetrics => {
+    const groundTruth = images.reduce((n, image) => n + image.groundTruth.filter((g) => g.label === label).length, 0);
+    const ranked = rankedOutcomes(images, label, iouThreshold);
+    const truePositives = ranked.filter(Boolean).length;
+    const apAt = (t: number) => averagePrecision(t === iouThreshold ? ranked : rankedOutcomes(images, label, t), groundTruth);
+    return {
+      label,
+      groundTruth,
+      detections: ranked.length,
+      truePositives,
+      precision: ranked.length > 0 ? truePositives / ranked.length : 0,
+      recall: groundTruth > 0 ? truePositives / groundTruth : 0,
+      ap: apAt(iouThreshold),
+      ap50: apAt(0.5),
+      ap5095: mean(COCO_IOU_THRESHOLDS.map(apAt)),
+    };
+  });
+
+  return {
+    iouThreshold,
+    classes,
+    map50: mean(classes.map((c) => c.ap50)),
+    map5095: mean(classes.map((c) => c.ap5095)),
+    images: images.length,
+  };
+};
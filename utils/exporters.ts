@@ -0,0 +1,154 @@
+import { BoundingBox, DetectionResult } from '../types';
+
+// One image worth of detections plus the natural (full-resolution) size needed to leave normalized space
+export interface ExportImage {
+  name: string;
+  width: number;
+  height: number;
+  detections: DetectionResult[];
+}
+
+export interface PixelBox {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+/**
+ * Converts a normalized (percentage: true) box to pixel coordinates, clamped to the image.
+ */
+export const toPixelBox = (box: BoundingBox, width: number, height: number): PixelBox => {
+  const clampX = (v: number) => Math.min(width, Math.max(0, v * width));
+  const clampY = (v: number) => Math.min(height, Math.max(0, v * height));
+  return {
+    xmin: round(clampX(box.xmin)),
+    ymin: round(clampY(box.ymin)),
+    xmax: round(clampX(box.xmax)),
+    ymax: round(clampY(box.ymax)),
+  };
+};
+
+/**
+ * Category list for formats that index classes: the model's label set first (stable ids across runs),
+ * followed by any detected label it does not contain (zero-shot queries, remapped labels).
+ */
+export const buildCategories = (modelLabels: string[], images: ExportImage[]): string[] => {
+  const categories = [...modelLabels];
+  const known = new Set(categories);
+  for (const image of images) {
+    for (const { label } of image.detections) {
+      if (!known.has(label)) {
+        known.add(label);
+        categories.push(label);
+      }
+    }
+  }
+  return categories;
+};
+
+const baseName = (name: string) => name.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '') || 'image';
+
+export const exportFileName = (image: ExportImage, extension: string) => `${baseName(image.name)}.${extension}`;
+
+export const toCocoJson = (images: ExportImage[], categories: string[]): string => {
+  const categoryIds = new Map(categories.map((label, i) => [label, i + 1]));
+  let annotationId = 0;
+  const coco = {
+    info: {
+      description: 'ObjectSense AI detections',
+      date_created: new Date().toISOString(),
+    },
+    images: images.map((image, i) => ({
+      id: i + 1,
+      file_name: image.name,
+      width: image.width,
+      height: image.height,
+    })),
+    categories: categories.map((label, i) => ({ id: i + 1, name: label, supercategory: 'object' })),
+    annotations: images.flatMap((image, i) =>
+      image.detections.map((det) => {
+        const px = toPixelBox(det.box, image.width, image.height);
+        const w = round(px.xmax - px.xmin);
+        const h = round(px.ymax - px.ymin);
+        return {
+          id: ++annotationId,
+          image_id: i + 1,
+          category_id: categoryIds.get(det.label)!,
+          bbox: [px.xmin, px.ymin, w, h],
+          area: round(w * h),
+          iscrowd: 0,
+          score: round(det.score, 4),
+        };
+      }),
+    ),
+  };
+  return JSON.stringify(coco, null, 2);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const toPascalVoc = (image: ExportImage): string => {
+  const objects = image.detections.map((det) => {
+    const px = toPixelBox(det.box, image.width, image.height);
+    return `  <object>
+    <name>${escapeXml(det.label)}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <confidence>${round(det.score, 4)}</confidence>
+    <bndbox>
+      <xmin>${Math.round(px.xmin)}</xmin>
+      <ymin>${Math.round(px.ymin)}</ymin>
+      <xmax>${Math.round(px.xmax)}</xmax>
+      <ymax>${Math.round(px.ymax)}</ymax>
+    </bndbox>
+  </object>`;
+  });
+  return `<annotation>
+  <filename>${escapeXml(image.name)}</filename>
+  <size>
+    <width>${image.width}</width>
+    <height>${image.height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+${objects.join('\n')}
+</annotation>
+`;
+};
+
+// YOLO rows are `class cx cy w h`, normalized to 0-1, which is what percentage: true already gives us
+export const toYoloTxt = (image: ExportImage, categories: string[]): string => {
+  const classIds = new Map(categories.map((label, i) => [label, i]));
+  return image.detections
+    .map(({ box, label }) => {
+      const cx = (box.xmin + box.xmax) / 2;
+      const cy = (box.ymin + box.ymax) / 2;
+      const w = box.xmax - box.xmin;
+      const h = box.ymax - box.ymin;
+      return [classIds.get(label), cx, cy, w, h].map((v, i) => (i === 0 ? v : Number(v).toFixed(6))).join(' ');
+    })
+    .join('\n');
+};
+
+export const toYoloClasses = (categories: string[]): string => categories.join('\n');
+
+export const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (images: ExportImage[]): string => {
+  const header = ['image', 'width', 'height', 'label', 'score', 'xmin', 'ymin', 'xmax', 'ymax'];
+  const rows = images.flatMap((image) =>
+    image.detections.map((det) => {
+      const px = toPixelBox(det.box, image.width, image.height);
+      return [image.name, image.width, image.height, det.label, round(det.score, 4), px.xmin, px.ymin, px.xmax, px.ymax];
+    }),
+  );
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,23 @@
+import { BoundingBox } from '../types';
+
+export const boxArea = (box: BoundingBox): number =>
+  Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+
+export const intersectionArea = (a: BoundingBox, b: BoundingBox): number => {
+  const w = Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin);
+  const h = Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin);
+  return w > 0 && h > 0 ? w * h : 0;
+};
+
+export const iou = (a: BoundingBox, b: BoundingBox): number => {
+  const inter = intersectionArea(a, b);
+  if (inter === 0) return 0;
+  return inter / (boxArea(a) + boxArea(b) - inter);
+};
+
+// Intersection over the smaller box: 1 when one box lies inside the other, whatever their sizes
+export const intersectionOverSmaller = (a: BoundingBox, b: BoundingBox): number => {
+  const inter = intersectionArea(a, b);
+  if (inter === 0) return 0;
+  return inter / Math.min(boxArea(a), boxArea(b));
+};
@@ -0,0 +1,100 @@
+import { GroundTruthBox } from '../types';
+
+export type GroundTruthSet = Map<string, GroundTruthBox[]>;
+
+export interface GroundTruthImport {
+  annotations: GroundTruthSet;
+  warnings: string[];
+}
+
+/**
+ * Images and annotation files are paired by base name: `photos/IMG_01.jpg` ↔ `IMG_01.txt` / COCO `IMG_01.jpg`.
+ */
+export const groundTruthKey = (name: string): string =>
+  name.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '').toLowerCase();
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+interface CocoFile {
+  images?: { id: number; file_name: string; width: number; height: number }[];
+  categories?: { id: number; name: string }[];
+  annotations?: { image_id: number; category_id: number; bbox: [number, number, number, number] }[];
+}
+
+export const parseCocoGroundTruth = (text: string): GroundTruthSet => {
+  const coco = JSON.parse(text) as CocoFile;
+  if (!Array.isArray(coco.images) || !Array.isArray(coco.annotations)) {
+    throw new Error('Not a COCO detection file (missing "images" or "annotations")');
+  }
+  const categories = new Map((coco.categories ?? []).map((c) => [c.id, c.name.trim()]));
+  const images = new Map(coco.images.map((img) => [img.id, img]));
+  const result: GroundTruthSet = new Map(coco.images.map((img) => [groundTruthKey(img.file_name), []]));
+
+  for (const ann of coco.annotations) {
+    const image = images.get(ann.image_id);
+    if (!image || !image.width || !image.height) continue;
+    const [x, y, w, h] = ann.bbox;
+    result.get(groundTruthKey(image.file_name))!.push({
+      label: categories.get(ann.category_id) ?? String(ann.category_id),
+      box: {
+        xmin: clamp01(x / image.width),
+        ymin: clamp01(y / image.height),
+        xmax: clamp01((x + w) / image.width),
+        ymax: clamp01((y + h) / image.height),
+      },
+    });
+  }
+  return result;
+};
+
+// YOLO rows are `class cx cy w h`, already normalized; class ids index into `classNames`
+export const parseYoloGroundTruth = (text: string, classNames: string[]): GroundTruthBox[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [cls, cx, cy, w, h] = line.split(/\s+/).map(Number);
+      if ([cls, cx, cy, w, h].some((v) => Number.isNaN(v))) throw new Error(`Malformed YOLO row "${line}"`);
+      return {
+        label: classNames[cls] ?? String(cls),
+        box: {
+          xmin: clamp01(cx - w / 2),
+          ymin: clamp01(cy - h / 2),
+          xmax: clamp01(cx + w / 2),
+          ymax: clamp01(cy + h / 2),
+        },
+      };
+    });
+
+const isClassList = (file: File) => /^(classes|obj)\.(txt|names)$/i.test(file.name);
+
+/**
+ * Reads any mix of COCO JSON files, YOLO label files and a `classes.txt`. Without a class list,
+ * YOLO ids are resolved against `fallbackClasses` (the model's label set).
+ */
+export const importGroundTruth = async (files: File[], fallbackClasses: string[]): Promise<GroundTruthImport> => {
+  const annotations: GroundTruthSet = new Map();
+  const warnings: string[] = [];
+
+  const classFile = files.find(isClassList);
+  const classNames = classFile
+    ? (await classFile.text()).split(/\r?\n/).map((l) => l.trim()).filter(Boolean)
+    : fallbackClasses;
+
+  for (const file of files) {
+    if (file === classFile) continue;
+    try {
+      if (file.name.toLowerCase().endsWith('.json')) {
+        parseCocoGroundTruth(await file.text()).forEach((boxes, key) => annotations.set(key, boxes));
+      } else if (file.name.toLowerCase().endsWith('.txt')) {
+        annotations.set(groundTruthKey(file.name), parseYoloGroundTruth(await file.text(), classNames));
+      } else {
+        warnings.push(`${file.name}: unsupported file type`);
+      }
+    } catch (err) {
+      warnings.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return { annotations, warnings };
+};
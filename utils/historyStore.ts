@@ -0,0 +1,144 @@
+import { DetectionResult, HistoryEntry } from '../types';
+import { canvasToBlob } from './images';
+import { labelColor } from './overlay';
+
+const DB_NAME = 'objectsense';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'history';
+// Full images live in their own store so listing the history never reads them
+const IMAGE_STORE = 'historyImages';
+const THUMBNAIL_SIZE = 160;
+
+export interface HistoryQuery {
+  label: string;
+  // yyyy-mm-dd from <input type="date">, inclusive; empty for no bound
+  from: string;
+  to: string;
+  minScore: number;
+}
+
+export const EMPTY_HISTORY_QUERY: HistoryQuery = { label: '', from: '', to: '', minScore: 0 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser does not support IndexedDB, so history cannot be stored.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+      db.createObjectStore(IMAGE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Could not open the history database.'));
+    };
+  });
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Writes only count once the transaction commits; a full disk surfaces here as QuotaExceededError
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('The history update was aborted.'));
+  });
+
+export const saveHistoryEntry = async (entry: HistoryEntry, image: Blob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).put(entry);
+  tx.objectStore(IMAGE_STORE).put(image, entry.id);
+  await transactionDone(tx);
+};
+
+// Newest first
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const db = await openDb();
+  const entries = await requestResult(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const loadHistoryImage = async (id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const image = await requestResult(db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).get(id) as IDBRequest<Blob | undefined>);
+  return image ?? null;
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).delete(id);
+  tx.objectStore(IMAGE_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).clear();
+  tx.objectStore(IMAGE_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Small JPEG of the image with its boxes outlined (no captions, they would be unreadable).
+ * Also reports the full image size, which the entry needs anyway.
+ */
+export const createThumbnail = async (
+  image: Blob,
+  detections: DetectionResult[],
+): Promise<{ thumbnail: Blob; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(image);
+  const { width, height } = bitmap;
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  ctx.lineWidth = 1.5;
+  for (const { box, label } of detections) {
+    ctx.strokeStyle = labelColor(label);
+    ctx.strokeRect(box.xmin * canvas.width, box.ymin * canvas.height, (box.xmax - box.xmin) * canvas.width, (box.ymax - box.ymin) * canvas.height);
+  }
+  return { thumbnail: await canvasToBlob(canvas, 'image/jpeg', 0.8), width, height };
+};
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+/**
+ * Label and score conditions apply to the same detection: "dog ≥ 0.8" means some dog
+ * scored at least 0.8, not that there is a dog and something else above 0.8.
+ */
+export const filterHistory = (entries: HistoryEntry[], query: HistoryQuery): HistoryEntry[] => {
+  const label = query.label.trim().toLowerCase();
+  const from = query.from ? dayStart(query.from) : -Infinity;
+  // Inclusive: everything before the start of the next day
+  const to = query.to ? dayStart(query.to) + 24 * 60 * 60 * 1000 : Infinity;
+  return entries.filter((entry) => {
+    if (entry.timestamp < from || entry.timestamp >= to) return false;
+    if (!label && query.minScore <= 0) return true;
+    return entry.detections.some((det) => (!label || det.label.toLowerCase().includes(label)) && det.score >= query.minScore);
+  });
+};
+
+export const describeStorageError = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Browser storage is full. Delete older history entries to keep saving new ones.';
+  }
+  return error instanceof Error ? error.message : String(error);
+};
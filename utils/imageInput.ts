@@ -0,0 +1,216 @@
+import { canvasToBlob } from './images';
+import { extractExifSegment, readExifOrientation } from './metadata';
+import { AppError } from './errors';
+
+export interface ImageInputSettings {
+  // Longest side of the analyzed image in pixels; 0 keeps the full resolution
+  maxSide: number;
+}
+
+export const DEFAULT_IMAGE_INPUT: ImageInputSettings = { maxSide: 2048 };
+
+export const MAX_SIDE_OPTIONS = [0, 1024, 2048, 4096];
+
+export const SAMPLE_IMAGE_URL = 'https://huggingface.co/datasets/Xenova/transformers.js-docs/resolve/main/cats.jpg';
+
+/**
+ * How the analyzed pixels relate to the file that was provided. Boxes are normalized, so
+ * multiplying by the original size gives original (upright) pixels.
+ */
+export interface ImageMapping {
+  // Size after applying the Exif orientation, before any downscaling
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  // width / originalWidth; 1 when the image was not downscaled
+  scale: number;
+  // Exif orientation baked into the pixels (1 = upright already)
+  orientation: number;
+  // Source type that had to be re-encoded because browsers cannot display it
+  convertedFrom?: string;
+}
+
+export interface NormalizedImage {
+  // The original bytes when nothing had to change, otherwise an upright re-encoded copy
+  blob: Blob;
+  // Upright at the original resolution, for tiling and full-size exports; `blob` itself unless it was downscaled
+  fullSize: Blob;
+  name: string;
+  mapping: ImageMapping;
+}
+
+// Formats every current browser can both decode and show in an <img>
+const DISPLAYABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/avif'];
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp|gif|bmp|avif|heic|heif|tiff?)$/i;
+// The Exif segment is capped at 64 KB and sits right after the start of the file
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+const isHeic = (blob: Blob, name: string) => /image\/hei[cf]/.test(blob.type) || /\.hei[cf]$/i.test(name);
+
+// Some systems hand HEIC files over with an empty type, so fall back to the extension
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/') || (!file.type && IMAGE_EXTENSION.test(file.name));
+
+const withExtension = (name: string, extension: string) => `${name.replace(/\.[^./]+$/, '') || 'image'}.${extension}`;
+
+const readOrientation = async (blob: Blob): Promise<number> => {
+  const head = new Uint8Array(await blob.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  const segment = extractExifSegment(head);
+  return (segment && readExifOrientation(segment)) ?? 1;
+};
+
+const decode = async (blob: Blob, name: string): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  } catch {
+    if (isHeic(blob, name)) {
+      throw new AppError('decode', `${name} is a HEIC photo, which this browser cannot decode. Export it as JPEG (or open it in Safari) and try again.`);
+    }
+    throw new AppError('decode', `${name} could not be read as an image. The file may be damaged or in an unsupported format.`);
+  }
+};
+
+const fitWithin = (width: number, height: number, maxSide: number) => {
+  const scale = maxSide > 0 ? Math.min(1, maxSide / Math.max(width, height)) : 1;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)), scale };
+};
+
+const createMapping = async (blob: Blob, bitmap: ImageBitmap, maxSide: number): Promise<ImageMapping> => {
+  const { width, height, scale } = fitWithin(bitmap.width, bitmap.height, maxSide);
+  return {
+    originalWidth: bitmap.width,
+    originalHeight: bitmap.height,
+    width,
+    height,
+    scale,
+    orientation: await readOrientation(blob),
+    // Untyped downloads are sniffed by the browser like any <img> source
+    convertedFrom: !blob.type || blob.type === 'application/octet-stream' || DISPLAYABLE_TYPES.includes(blob.type) ? undefined : blob.type,
+  };
+};
+
+/**
+ * The single entry point for images from files, drops, pastes and URLs. The result is
+ * upright (Exif orientation applied), within the size limit and in a format the page can
+ * display, so the <img> and the model always see the same pixels.
+ */
+export const normalizeImage = async (blob: Blob, name: string, settings: ImageInputSettings): Promise<NormalizedImage> => {
+  const bitmap = await decode(blob, name);
+  const mapping = await createMapping(blob, bitmap, settings.maxSide);
+  const upright = mapping.orientation === 1 && !mapping.convertedFrom;
+  // Nothing to fix: keep the original bytes, metadata included
+  if (upright && mapping.scale === 1) {
+    bitmap.close();
+    return { blob, fullSize: blob, name, mapping };
+  }
+
+  // Formats that may carry transparency stay lossless
+  const lossless = ['image/png', 'image/webp', 'image/gif'].includes(blob.type);
+  const encode = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return canvasToBlob(canvas, lossless ? 'image/png' : 'image/jpeg', lossless ? undefined : 0.92);
+  };
+  try {
+    const encoded = await encode(mapping.width, mapping.height);
+    let fullSize = encoded;
+    if (mapping.scale < 1) fullSize = upright ? blob : await encode(mapping.originalWidth, mapping.originalHeight);
+    return {
+      blob: encoded,
+      fullSize,
+      name: mapping.convertedFrom ? withExtension(name, lossless ? 'png' : 'jpg') : name,
+      mapping,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Same normalization for the batch queue, which hands the bitmap straight to the worker
+ * and keeps displaying the original file.
+ */
+export const decodeForDetection = async (
+  blob: Blob,
+  name: string,
+  settings: ImageInputSettings,
+): Promise<{ bitmap: ImageBitmap; mapping: ImageMapping }> => {
+  const bitmap = await decode(blob, name);
+  const mapping = await createMapping(blob, bitmap, settings.maxSide);
+  if (mapping.scale === 1) return { bitmap, mapping };
+  const resized = await createImageBitmap(bitmap, { resizeWidth: mapping.width, resizeHeight: mapping.height, resizeQuality: 'high' });
+  bitmap.close();
+  return { bitmap: resized, mapping };
+};
+
+const nameFromUrl = (url: URL) => decodeURIComponent(url.pathname.split('/').pop() || '') || 'image';
+
+/**
+ * Downloads an image for analysis. Browsers report a CORS refusal as a bare network error,
+ * so that case is explained rather than passed through.
+ */
+export const fetchImageUrl = async (address: string): Promise<{ blob: Blob; name: string }> => {
+  let url: URL;
+  try {
+    url = new URL(address.trim());
+  } catch {
+    throw new AppError('network', 'Enter a full image address, starting with https://');
+  }
+  if (!['http:', 'https:', 'data:', 'blob:'].includes(url.protocol)) {
+    throw new AppError('network', `${url.protocol} addresses are not supported. Use an http(s) image URL.`);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url.href, { mode: 'cors' });
+  } catch {
+    throw new AppError(
+      'cors',
+      `${url.host || 'The server'} did not allow this page to read the image (CORS), or could not be reached. ` +
+      'Download the image and upload or drop the file instead.',
+    );
+  }
+  if (!response.ok) {
+    throw new AppError('network', `The server answered ${response.status}${response.statusText ? ` ${response.statusText}` : ''} for this address.`);
+  }
+  const blob = await response.blob();
+  const type = blob.type.split(';')[0];
+  if (type && !type.startsWith('image/') && type !== 'application/octet-stream') {
+    throw new AppError('decode', `The address returned ${type}, not an image. Link to the image file itself.`);
+  }
+  return { blob, name: nameFromUrl(url) };
+};
+
+export type ImagePayload = { kind: 'file'; file: File } | { kind: 'url'; url: string };
+
+const looksLikeUrl = (text: string) => /^(https?:\/\/|data:image\/)\S+$/i.test(text.trim());
+
+// During dragover the files themselves are hidden, only their kinds are known
+export const mayCarryImage = (data: DataTransfer | null): boolean =>
+  !!data && (data.types.includes('Files') || data.types.includes('text/uri-list'));
+
+/**
+ * Picks the image out of a drop or paste: a file first, otherwise a dragged or copied
+ * image address.
+ */
+export const readImagePayload = (data: DataTransfer | null): ImagePayload | null => {
+  if (!data) return null;
+  const file = Array.from(data.files).find(isImageFile);
+  if (file) return { kind: 'file', file };
+  // Images dragged from another page arrive as their URL
+  const uri = data.getData('text/uri-list').split(/\r?\n/).find((line) => line && !line.startsWith('#'));
+  const text = uri || data.getData('text/plain');
+  return text && looksLikeUrl(text) ? { kind: 'url', url: text.trim() } : null;
+};
+
+export const describeMapping = (mapping: ImageMapping): string => {
+  const parts: string[] = [];
+  if (mapping.convertedFrom) parts.push(`converted from ${mapping.convertedFrom}`);
+  if (mapping.orientation !== 1) parts.push('Exif rotation applied');
+  if (mapping.scale < 1) parts.push(`analyzed at ${mapping.width}×${mapping.height} of ${mapping.originalWidth}×${mapping.originalHeight}`);
+  return parts.join(' · ');
+};
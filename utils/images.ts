@@ -0,0 +1,24 @@
+/**
+ * Decodes an image URL (data URL, blob URL or CORS-enabled remote URL) into an ImageBitmap
+ * that can be transferred to the detection worker.
+ */
+export const loadImageBitmap = async (src: string): Promise<ImageBitmap> => {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Failed to fetch image (${response.status})`);
+  return createImageBitmap(await response.blob());
+};
+
+// crossOrigin keeps canvases drawn from remote images (the sample) exportable
+export const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
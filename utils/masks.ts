@@ -0,0 +1,91 @@
+import { BoundingBox, DetectionResult, SegmentationResult, SegmentMask } from '../types';
+
+export const MASK_ALPHA = 0.45;
+
+export const hasMask = (det: DetectionResult): det is SegmentationResult => 'mask' in det;
+
+/**
+ * Turns a full-image, single-channel mask (non-zero = inside) into a mask cropped to the
+ * segment's bounds, its normalized box and its pixel area. Null for an empty mask.
+ */
+export const cropMask = (
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+): { box: BoundingBox; mask: SegmentMask; area: number } | null => {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  let area = 0;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (!pixels[row + x]) continue;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (area === 0) return null;
+
+  const cropWidth = maxX - minX + 1;
+  const cropHeight = maxY - minY + 1;
+  const data = new Uint8Array(cropWidth * cropHeight);
+  for (let y = 0; y < cropHeight; y++) {
+    const source = (minY + y) * width + minX;
+    for (let x = 0; x < cropWidth; x++) {
+      if (pixels[source + x]) data[y * cropWidth + x] = 1;
+    }
+  }
+  return {
+    box: { xmin: minX / width, ymin: minY / height, xmax: (maxX + 1) / width, ymax: (maxY + 1) / height },
+    mask: { x: minX, y: minY, width: cropWidth, height: cropHeight, imageWidth: width, imageHeight: height, data },
+    area,
+  };
+};
+
+// Share of the image covered by the mask (0-1)
+export const maskCoverage = ({ mask, area }: SegmentationResult): number => area / (mask.imageWidth * mask.imageHeight);
+
+/**
+ * Paints each mask in its label color. The canvas is expected to have the size of the
+ * analyzed image; masks from a different size are scaled to fit.
+ */
+export const drawMasks = (
+  ctx: CanvasRenderingContext2D,
+  detections: SegmentationResult[],
+  color: (label: string) => string,
+  alpha = MASK_ALPHA,
+) => {
+  const { width, height } = ctx.canvas;
+  const stencil = document.createElement('canvas');
+  const stencilCtx = stencil.getContext('2d')!;
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.imageSmoothingEnabled = false;
+  for (const { mask, label } of detections) {
+    stencil.width = mask.width;
+    stencil.height = mask.height;
+    const pixels = stencilCtx.createImageData(mask.width, mask.height);
+    for (let i = 0; i < mask.data.length; i++) {
+      if (mask.data[i]) pixels.data[i * 4 + 3] = 255;
+    }
+    stencilCtx.putImageData(pixels, 0, 0);
+    // Keep only the mask's pixels, then give them the label color
+    stencilCtx.globalCompositeOperation = 'source-in';
+    stencilCtx.fillStyle = color(label);
+    stencilCtx.fillRect(0, 0, mask.width, mask.height);
+    stencilCtx.globalCompositeOperation = 'source-over';
+
+    const scaleX = width / mask.imageWidth;
+    const scaleY = height / mask.imageHeight;
+    ctx.drawImage(stencil, mask.x * scaleX, mask.y * scaleY, mask.width * scaleX, mask.height * scaleY);
+  }
+  ctx.restore();
+};
+
+export const formatArea = (pixels: number): string =>
+  pixels >= 1e6 ? `${(pixels / 1e6).toFixed(2)} MP` : `${pixels.toLocaleString()} px`;
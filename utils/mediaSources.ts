@@ -0,0 +1,137 @@
+export interface StreamHandle {
+  stream: MediaStream;
+  // Releases the tracks and anything the source allocated to feed them
+  stop: () => void;
+}
+
+// HTMLMediaElement.captureStream is not in the TS DOM lib yet (Chromium and Firefox ship it)
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+const stopTracks = (stream: MediaStream) => stream.getTracks().forEach((track) => track.stop());
+
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((d) => d.kind === 'videoinput');
+};
+
+export const openCamera = async (deviceId?: string): Promise<StreamHandle> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Camera access is not supported in this browser.');
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: deviceId
+      ? { deviceId: { exact: deviceId } }
+      : { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
+    audio: false,
+  });
+  return { stream, stop: () => stopTracks(stream) };
+};
+
+/**
+ * Fake camera for demos and testing: an animated canvas exposed as a MediaStream.
+ * The moving shapes give the overlay something to follow even if the model finds nothing.
+ */
+export const createTestPatternStream = (width = 640, height = 480, fps = 30): StreamHandle => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  let frame = 0;
+
+  const timer = window.setInterval(() => {
+    frame++;
+    const t = frame / fps;
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#6366f1';
+    ctx.fillRect((Math.sin(t) * 0.35 + 0.5) * width - 60, height * 0.25, 120, 120);
+    ctx.fillStyle = '#f472b6';
+    ctx.beginPath();
+    ctx.arc(width * 0.5, (Math.cos(t * 0.7) * 0.3 + 0.6) * height, 50, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '16px monospace';
+    ctx.fillText(`test pattern  frame ${frame}`, 12, height - 16);
+  }, 1000 / fps);
+
+  const stream = canvas.captureStream(fps);
+  return {
+    stream,
+    stop: () => {
+      window.clearInterval(timer);
+      stopTracks(stream);
+    },
+  };
+};
+
+/**
+ * Fake camera backed by a local video file, looped. Lets the team demo the live mode
+ * with a recorded clip on laptops without (or with a bad) webcam.
+ */
+export const createVideoFileStream = async (file: File): Promise<StreamHandle> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video') as CapturableVideo;
+  video.src = url;
+  video.loop = true;
+  video.muted = true;
+  video.playsInline = true;
+  await video.play();
+
+  const capture = video.captureStream ?? video.mozCaptureStream;
+  if (!capture) {
+    video.pause();
+    URL.revokeObjectURL(url);
+    throw new Error('This browser cannot capture a stream from a video element.');
+  }
+  const stream = capture.call(video);
+  return {
+    stream,
+    stop: () => {
+      stopTracks(stream);
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked') =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'The video could not be decoded.'));
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+// Detached video element for frame-accurate sampling, independent of the visible player
+export const openVideoForSampling = async (src: string): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  const loaded = waitForEvent(video, 'loadeddata');
+  video.src = src;
+  await loaded;
+  return video;
+};
+
+export const seekVideo = async (video: HTMLVideoElement, time: number) => {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+};
@@ -0,0 +1,109 @@
+// Minimal JPEG/Exif surgery for keeping camera metadata on re-encoded images. Canvas
+// encoders never write metadata, so stripping needs no code: it is what re-encoding does.
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+// TIFF data starts after the APP1 marker (2), segment length (2) and Exif header (6)
+const TIFF_START = 10;
+const TAG_ORIENTATION = 0x0112;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+
+export const isJpeg = (bytes: Uint8Array): boolean => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+/**
+ * Returns the APP1 Exif segment (marker included) of a JPEG, or null when there is none.
+ */
+export const extractExifSegment = (bytes: Uint8Array): Uint8Array | null => {
+  if (!isJpeg(bytes)) return null;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: metadata segments all come before the image data
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && EXIF_HEADER.every((b, i) => bytes[offset + 4 + i] === b)) {
+      return bytes.slice(offset, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Reads the orientation tag (1-8) from IFD0 of an Exif segment; null when it is missing.
+ */
+export const readExifOrientation = (segment: Uint8Array): number | null => {
+  if (segment.length < TIFF_START + 8) return null;
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const little = segment[TIFF_START] === 0x49;
+  const start = TIFF_START + view.getUint32(TIFF_START + 4, little);
+  if (start + 2 > segment.length) return null;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > segment.length) return null;
+    if (view.getUint16(entry, little) !== TAG_ORIENTATION) continue;
+    const value = view.getUint16(entry + 8, little);
+    return value >= 1 && value <= 8 ? value : null;
+  }
+  return null;
+};
+
+/**
+ * Prepares an Exif segment for an image that was redacted and re-encoded upright:
+ * the orientation is reset (the pixels are already rotated) and the embedded thumbnail,
+ * which still shows the unredacted picture, is wiped and unlinked.
+ */
+export const sanitizeExifSegment = (segment: Uint8Array): Uint8Array => {
+  const copy = segment.slice();
+  const view = new DataView(copy.buffer);
+  if (copy.length < TIFF_START + 8) return copy;
+  const little = copy[TIFF_START] === 0x49; // "II" vs "MM"
+  const inBounds = (offset: number, size: number) => offset >= 0 && offset + size <= copy.length;
+
+  // Calls `visit` with the position of every entry in the IFD, returns the position of the next-IFD link
+  const walkIfd = (ifdOffset: number, visit: (entry: number) => void): number | null => {
+    const start = TIFF_START + ifdOffset;
+    if (!inBounds(start, 2)) return null;
+    const count = view.getUint16(start, little);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (!inBounds(entry, 12)) return null;
+      visit(entry);
+    }
+    const link = start + 2 + count * 12;
+    return inBounds(link, 4) ? link : null;
+  };
+
+  const ifd0Link = walkIfd(view.getUint32(TIFF_START + 4, little), (entry) => {
+    if (view.getUint16(entry, little) === TAG_ORIENTATION) view.setUint16(entry + 8, 1, little);
+  });
+  if (ifd0Link === null) return copy;
+
+  const ifd1 = view.getUint32(ifd0Link, little);
+  if (ifd1 !== 0) {
+    let thumbOffset = 0;
+    let thumbLength = 0;
+    walkIfd(ifd1, (entry) => {
+      const tag = view.getUint16(entry, little);
+      if (tag === TAG_THUMBNAIL_OFFSET) thumbOffset = view.getUint32(entry + 8, little);
+      if (tag === TAG_THUMBNAIL_LENGTH) thumbLength = view.getUint32(entry + 8, little);
+    });
+    const thumbStart = TIFF_START + thumbOffset;
+    if (thumbLength > 0 && inBounds(thumbStart, thumbLength)) copy.fill(0, thumbStart, thumbStart + thumbLength);
+    view.setUint32(ifd0Link, 0, little);
+  }
+  return copy;
+};
+
+// Places the segment right after the start-of-image marker, or after a JFIF APP0 segment,
+// which has to stay the first marker in the file
+export const insertExifSegment = (jpeg: Uint8Array, segment: Uint8Array): Uint8Array => {
+  let at = 2;
+  if (jpeg.length >= 6 && jpeg[2] === 0xff && jpeg[3] === 0xe0) at = Math.min(jpeg.length, 4 + ((jpeg[4] << 8) | jpeg[5]));
+  const out = new Uint8Array(jpeg.length + segment.length);
+  out.set(jpeg.subarray(0, at));
+  out.set(segment, at);
+  out.set(jpeg.subarray(at), at + segment.length);
+  return out;
+};
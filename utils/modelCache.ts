@@ -0,0 +1,61 @@
+import { MODEL_REGISTRY } from '../modelRegistry';
+
+// Cache Storage bucket transformers.js writes downloaded model files to
+export const MODEL_CACHE_NAME = 'transformers-cache';
+
+export interface CachedModel {
+  id: string;
+  files: number;
+  bytes: number;
+  // Cache keys, kept so the model can be deleted
+  keys: string[];
+}
+
+const modelIdFromKey = (key: string): string => {
+  const { pathname } = new URL(key, location.origin);
+  const hub = pathname.match(/^\/(.+?)\/resolve\//);
+  if (hub) return decodeURIComponent(hub[1]);
+  // Files read from a local path are cached under that path
+  return MODEL_REGISTRY.find((entry) => pathname.includes(`/${entry.id}/`))?.id ?? pathname.split('/').slice(-3, -1).join('/');
+};
+
+const responseSize = async (response: Response): Promise<number> => {
+  const length = Number(response.headers.get('content-length'));
+  return length > 0 ? length : (await response.blob()).size;
+};
+
+export const listCachedModels = async (): Promise<CachedModel[]> => {
+  if (typeof caches === 'undefined') return [];
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const byModel = new Map<string, CachedModel>();
+  for (const request of await cache.keys()) {
+    const id = modelIdFromKey(request.url);
+    const entry = byModel.get(id) ?? { id, files: 0, bytes: 0, keys: [] };
+    const response = await cache.match(request);
+    entry.files++;
+    entry.bytes += response ? await responseSize(response) : 0;
+    entry.keys.push(request.url);
+    byModel.set(id, entry);
+  }
+  return Array.from(byModel.values()).sort((a, b) => b.bytes - a.bytes);
+};
+
+export const deleteCachedModel = async (model: CachedModel) => {
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  await Promise.all(model.keys.map((key) => cache.delete(key)));
+};
+
+// Drops every cached file of one model, e.g. after a download was cut off mid-file
+export const deleteCachedModelFiles = async (id: string) => {
+  if (typeof caches === 'undefined') return;
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const keys = (await cache.keys()).filter((request) => modelIdFromKey(request.url) === id);
+  await Promise.all(keys.map((request) => cache.delete(request)));
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+};
@@ -0,0 +1,75 @@
+import { ModelFolderFile, ModelOrigin, ModelSource, ModelSourceMode } from '../types';
+
+const STORAGE_KEY = 'objectsense.modelSource';
+
+export const DEFAULT_LOCAL_MODEL_PATH = '/models/';
+
+export const DEFAULT_MODEL_SOURCE: ModelSource = { mode: 'hub', localPath: DEFAULT_LOCAL_MODEL_PATH };
+
+// A picked folder cannot be restored after a reload, so only hub and local settings are remembered
+export const loadModelSource = (): ModelSource => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && (stored.mode === 'hub' || stored.mode === 'local') && typeof stored.localPath === 'string') {
+      return { mode: stored.mode, localPath: stored.localPath };
+    }
+  } catch {
+    // Missing, malformed or inaccessible storage all fall back to the hub
+  }
+  return DEFAULT_MODEL_SOURCE;
+};
+
+export const saveModelSource = (source: ModelSource) => {
+  if (source.mode === 'folder') return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ mode: source.mode, localPath: source.localPath }));
+  } catch {
+    // Not being able to remember the choice is harmless
+  }
+};
+
+export const MODEL_SOURCE_LABELS: Record<ModelSourceMode, string> = {
+  hub: 'Hugging Face hub',
+  local: 'Local path',
+  folder: 'Folder on this device',
+};
+
+export const describeOrigin = (origin: ModelOrigin, source: ModelSource): string => {
+  switch (origin) {
+    case 'cache':
+      return 'Loaded from browser cache';
+    case 'local':
+      return `Loaded from ${source.localPath}`;
+    case 'folder':
+      return 'Loaded from the selected folder';
+    case 'network':
+      return 'Downloaded from the Hugging Face hub';
+  }
+};
+
+// Folder uploads carry `picked/sub/file`; drop the picked folder's own name
+export const toFolderFiles = (files: FileList | File[]): ModelFolderFile[] =>
+  Array.from(files).map((file) => {
+    const path = file.webkitRelativePath || file.name;
+    return { path: path.slice(path.indexOf('/') + 1), file };
+  });
+
+// Path of a model file relative to the model root, from either a hub URL or a local path
+const relativeModelPath = (model: string, key: string): string | null => {
+  const path = decodeURIComponent(new URL(key, 'http://localhost').pathname);
+  const marker = `/${model}/`;
+  const at = path.indexOf(marker);
+  if (at < 0) return null;
+  return path.slice(at + marker.length).replace(/^resolve\/[^/]+\//, '');
+};
+
+/**
+ * Finds the picked file transformers.js asks for. The folder may be the model directory
+ * itself, its organisation directory or a whole models tree, so all three layouts match.
+ */
+export const findFolderFile = (files: Map<string, File>, model: string, key: string): File | undefined => {
+  const relative = relativeModelPath(model, key);
+  if (!relative) return undefined;
+  const name = model.split('/').pop();
+  return files.get(relative) ?? files.get(`${model}/${relative}`) ?? files.get(`${name}/${relative}`);
+};
@@ -0,0 +1,70 @@
+import { DetectionResult } from '../types';
+import { loadImageElement, canvasToBlob } from './images';
+
+// Same hue formula the DOM overlay has always used, so canvas and div boxes match
+export const labelHue = (label: string): number => (label.length * 50) % 360;
+
+export const labelColor = (label: string, alpha = 1): string =>
+  alpha === 1
+    ? `hsl(${labelHue(label)}, 80%, 60%)`
+    : `hsla(${labelHue(label)}, 80%, 60%, ${alpha})`;
+
+const scoreCaption = ({ label, score }: DetectionResult) => `${label} ${(score * 100).toFixed(1)}%`;
+
+/**
+ * Draws normalized (percentage: true) detections onto a canvas of the given pixel size.
+ */
+export const drawDetections = <T extends DetectionResult>(
+  ctx: CanvasRenderingContext2D,
+  detections: T[],
+  width: number,
+  height: number,
+  caption: (det: T) => string = scoreCaption,
+) => {
+  const lineWidth = Math.max(2, Math.round(width / 400));
+  const fontSize = Math.max(12, Math.round(width / 60));
+  ctx.save();
+  ctx.lineWidth = lineWidth;
+  ctx.font = `bold ${fontSize}px Inter, sans-serif`;
+  ctx.textBaseline = 'top';
+
+  for (const det of detections) {
+    const { box, label } = det;
+    const x = box.xmin * width;
+    const y = box.ymin * height;
+    const w = (box.xmax - box.xmin) * width;
+    const h = (box.ymax - box.ymin) * height;
+
+    ctx.fillStyle = labelColor(label, 0.1);
+    ctx.fillRect(x, y, w, h);
+    ctx.strokeStyle = labelColor(label);
+    ctx.strokeRect(x, y, w, h);
+
+    const text = caption(det);
+    const padding = Math.round(fontSize / 3);
+    const textWidth = ctx.measureText(text).width + padding * 2;
+    const textHeight = fontSize + padding * 2;
+    // Keep the tag inside the frame when the box touches the top edge
+    const tagY = y - textHeight >= 0 ? y - textHeight : y;
+    ctx.fillStyle = labelColor(label);
+    ctx.fillRect(x, tagY, textWidth, textHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(text, x + padding, tagY + padding);
+  }
+
+  ctx.restore();
+};
+
+/**
+ * Burns the boxes into a PNG at the image's full natural resolution.
+ */
+export const renderAnnotatedImage = async (src: string, detections: DetectionResult[]): Promise<Blob> => {
+  const img = await loadImageElement(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  drawDetections(ctx, detections, canvas.width, canvas.height);
+  return canvasToBlob(canvas);
+};
@@ -0,0 +1,79 @@
+import { DetectionResult, PostProcessSettings } from '../types';
+import { boxArea, iou } from './geometry';
+import { applyQueryThresholds } from './queries';
+
+// Inference runs once at this score; everything above it is filtered client-side
+export const INFERENCE_FLOOR = 0.05;
+
+export const createPostProcessSettings = (threshold: number): PostProcessSettings => ({
+  threshold,
+  excludedLabels: [],
+  nms: false,
+  nmsIou: 0.5,
+  minArea: 0,
+  maxArea: 1,
+  topK: 0,
+  labelMap: {},
+});
+
+export const remapLabels = (detections: DetectionResult[], labelMap: Record<string, string>): DetectionResult[] =>
+  detections.map((det) => (labelMap[det.label] ? { ...det, label: labelMap[det.label] } : det));
+
+/**
+ * Class-agnostic greedy NMS: keeps the highest-scoring box and drops any other box
+ * overlapping it by more than `iouThreshold`, regardless of label.
+ */
+export const nonMaxSuppression = (detections: DetectionResult[], iouThreshold: number): DetectionResult[] => {
+  const sorted = [...detections].sort((a, b) => b.score - a.score);
+  const kept: DetectionResult[] = [];
+  for (const det of sorted) {
+    if (kept.every((k) => iou(k.box, det.box) <= iouThreshold)) kept.push(det);
+  }
+  return kept;
+};
+
+export const applyPostProcessing = (raw: DetectionResult[], settings: PostProcessSettings): DetectionResult[] => {
+  let result = settings.queries ? applyQueryThresholds(raw, settings.queries) : raw;
+  result = remapLabels(result, settings.labelMap);
+  const excluded = new Set(settings.excludedLabels);
+  // Per-query thresholds replace the global one, so a query can go below the slider
+  const minScore = settings.queries ? 0 : settings.threshold;
+  result = result.filter((det) => {
+    const area = boxArea(det.box);
+    return (
+      det.score >= minScore &&
+      !excluded.has(det.label) &&
+      area >= settings.minArea &&
+      area <= settings.maxArea
+    );
+  });
+  if (settings.nms) result = nonMaxSuppression(result, settings.nmsIou);
+  if (settings.topK > 0) result = [...result].sort((a, b) => b.score - a.score).slice(0, settings.topK);
+  return result;
+};
+
+/**
+ * Parses remap rules, one per line: `car, truck, bus => vehicle` (`->` works too).
+ */
+export const parseLabelMap = (text: string): Record<string, string> => {
+  const map: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^(.*?)(?:=>|->)(.*)$/);
+    if (!match) continue;
+    const target = match[2].trim();
+    if (!target) continue;
+    for (const source of match[1].split(',')) {
+      const label = source.trim();
+      if (label) map[label] = target;
+    }
+  }
+  return map;
+};
+
+export const formatLabelMap = (labelMap: Record<string, string>): string => {
+  const byTarget = new Map<string, string[]>();
+  for (const [source, target] of Object.entries(labelMap)) {
+    byTarget.set(target, [...(byTarget.get(target) ?? []), source]);
+  }
+  return Array.from(byTarget, ([target, sources]) => `${sources.join(', ')} => ${target}`).join('\n');
+};
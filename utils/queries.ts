@@ -0,0 +1,27 @@
+import { DetectionResult, ZeroShotQuery } from '../types';
+
+/**
+ * Turns a comma-separated query string into queries, keeping the threshold of labels
+ * that were already present so editing the text does not reset the sliders.
+ */
+export const parseQueries = (text: string, previous: ZeroShotQuery[], defaultThreshold: number): ZeroShotQuery[] => {
+  const thresholds = new Map(previous.map((q) => [q.label, q.threshold]));
+  const seen = new Set<string>();
+  const queries: ZeroShotQuery[] = [];
+  for (const raw of text.split(',')) {
+    const label = raw.trim();
+    if (!label || seen.has(label)) continue;
+    seen.add(label);
+    queries.push({ label, threshold: thresholds.get(label) ?? defaultThreshold });
+  }
+  return queries;
+};
+
+// The pipeline takes a single threshold, so it runs at a low floor and each query filters its own
+export const applyQueryThresholds = (detections: DetectionResult[], queries: ZeroShotQuery[]): DetectionResult[] => {
+  const thresholds = new Map(queries.map((q) => [q.label, q.threshold]));
+  return detections.filter((d) => d.score >= (thresholds.get(d.label) ?? Infinity));
+};
+
+export const formatQueries = (queries: ZeroShotQuery[]): string =>
+  queries.map((q) => `${q.label} ≥ ${q.threshold.toFixed(2)}`).join(', ');
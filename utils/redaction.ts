@@ -0,0 +1,140 @@
+import { DetectionResult, RedactionSettings, RedactionStyle } from '../types';
+import { PixelBox } from './exporters';
+import { canvasToBlob } from './images';
+import { extractExifSegment, insertExifSegment, isJpeg, sanitizeExifSegment } from './metadata';
+
+export const DEFAULT_REDACTION: RedactionSettings = {
+  labels: ['person'],
+  style: 'blur',
+  strength: 0.2,
+  padding: 0.1,
+  fillColor: '#000000',
+  stripMetadata: true,
+};
+
+export const REDACTION_STYLE_LABELS: Record<RedactionStyle, string> = {
+  blur: 'Gaussian blur',
+  pixelate: 'Pixelate',
+  fill: 'Solid fill',
+};
+
+export interface RedactedImage {
+  blob: Blob;
+  // File extension matching the blob: JPEG sources stay JPEG, everything else becomes PNG
+  extension: 'jpg' | 'png';
+  regions: number;
+}
+
+/**
+ * Whole-pixel regions to redact: boxes of the selected labels grown by the padding
+ * and rounded outwards, so no partially covered pixel is left untouched.
+ */
+export const redactionRegions = (
+  detections: DetectionResult[],
+  settings: RedactionSettings,
+  width: number,
+  height: number,
+): PixelBox[] => {
+  const labels = new Set(settings.labels);
+  return detections
+    .filter((det) => labels.has(det.label))
+    .map(({ box }) => {
+      const padX = (box.xmax - box.xmin) * settings.padding;
+      const padY = (box.ymax - box.ymin) * settings.padding;
+      return {
+        xmin: Math.max(0, Math.floor((box.xmin - padX) * width)),
+        ymin: Math.max(0, Math.floor((box.ymin - padY) * height)),
+        xmax: Math.min(width, Math.ceil((box.xmax + padX) * width)),
+        ymax: Math.min(height, Math.ceil((box.ymax + padY) * height)),
+      };
+    })
+    .filter((r) => r.xmax > r.xmin && r.ymax > r.ymin);
+};
+
+// Redraws a region from a few large cells; smoothing on gives a soft blur, off gives blocks
+const resample = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, r: PixelBox, cell: number, smooth: boolean) => {
+  const w = r.xmax - r.xmin;
+  const h = r.ymax - r.ymin;
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(w / cell));
+  small.height = Math.max(1, Math.ceil(h / cell));
+  const smallCtx = small.getContext('2d')!;
+  smallCtx.drawImage(source, r.xmin, r.ymin, w, h, 0, 0, small.width, small.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = smooth;
+  ctx.drawImage(small, 0, 0, small.width, small.height, r.xmin, r.ymin, w, h);
+  ctx.restore();
+};
+
+const blurRegion = (ctx: CanvasRenderingContext2D, source: ImageBitmap, r: PixelBox, radius: number) => {
+  // Safari has no canvas filters; a smoothed downsample is the closest substitute
+  if (typeof ctx.filter !== 'string') {
+    resample(ctx, source, r, radius, true);
+    return;
+  }
+  // Blur a margin around the region too, so its edges average real pixels
+  const sx = Math.max(0, r.xmin - radius * 2);
+  const sy = Math.max(0, r.ymin - radius * 2);
+  const sw = Math.min(source.width, r.xmax + radius * 2) - sx;
+  const sh = Math.min(source.height, r.ymax + radius * 2) - sy;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(r.xmin, r.ymin, r.xmax - r.xmin, r.ymax - r.ymin);
+  ctx.clip();
+  ctx.filter = `blur(${radius}px)`;
+  ctx.drawImage(source, sx, sy, sw, sh, sx, sy, sw, sh);
+  ctx.restore();
+};
+
+const redactRegion = (ctx: CanvasRenderingContext2D, source: ImageBitmap, r: PixelBox, settings: RedactionSettings) => {
+  const w = r.xmax - r.xmin;
+  const h = r.ymax - r.ymin;
+  const size = Math.max(2, Math.round(settings.strength * Math.min(w, h)));
+  switch (settings.style) {
+    case 'fill':
+      ctx.fillStyle = settings.fillColor;
+      ctx.fillRect(r.xmin, r.ymin, w, h);
+      break;
+    case 'pixelate':
+      resample(ctx, source, r, size, false);
+      break;
+    case 'blur':
+      blurRegion(ctx, source, r, size);
+      break;
+  }
+};
+
+/**
+ * Renders a redacted copy of the image at full resolution. Re-encoding drops all metadata;
+ * when it should be kept, the source's Exif block is copied over without its thumbnail.
+ */
+export const renderRedactedImage = async (
+  src: string,
+  detections: DetectionResult[],
+  settings: RedactionSettings,
+): Promise<RedactedImage> => {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Failed to fetch image (${response.status})`);
+  const original = await response.blob();
+  const bytes = new Uint8Array(await original.arrayBuffer());
+  const jpeg = isJpeg(bytes);
+
+  // Decoded the same way as for detection, so EXIF rotation matches the boxes
+  const bitmap = await createImageBitmap(original);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  const regions = redactionRegions(detections, settings, bitmap.width, bitmap.height);
+  regions.forEach((r) => redactRegion(ctx, bitmap, r, settings));
+  bitmap.close();
+
+  let blob = await canvasToBlob(canvas, jpeg ? 'image/jpeg' : 'image/png', jpeg ? 0.92 : undefined);
+  const exif = !settings.stripMetadata && jpeg ? extractExifSegment(bytes) : null;
+  if (exif) {
+    const encoded = new Uint8Array(await blob.arrayBuffer());
+    blob = new Blob([insertExifSegment(encoded, sanitizeExifSegment(exif))], { type: 'image/jpeg' });
+  }
+  return { blob, extension: jpeg ? 'jpg' : 'png', regions: regions.length };
+};
@@ -0,0 +1,18 @@
+import { DetectionRun, DetectOptions, ModelEntry, PostProcessSettings, RuntimeSettings, TilingSettings } from '../types';
+
+// The model runs at a low floor and filtering happens afterwards, so the recorded threshold is the filter's
+export const createRun = (
+  model: ModelEntry,
+  options: DetectOptions,
+  filters: PostProcessSettings,
+  tiling?: TilingSettings,
+  runtime?: RuntimeSettings,
+): DetectionRun => ({
+  modelId: model.id,
+  task: model.task,
+  threshold: filters.threshold,
+  queries: options.queries,
+  tiling: tiling?.enabled ? tiling : undefined,
+  runtime,
+  timestamp: Date.now(),
+});
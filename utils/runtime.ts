@@ -0,0 +1,67 @@
+import { ExecutionDevice, RuntimeSettings, WeightDtype } from '../types';
+
+const STORAGE_KEY = 'objectsense.runtime';
+
+export const DEFAULT_RUNTIME: RuntimeSettings = { device: 'wasm', dtype: 'q8' };
+
+export const DEVICE_LABELS: Record<ExecutionDevice, string> = {
+  wasm: 'WASM (CPU)',
+  webgpu: 'WebGPU',
+};
+
+export const DTYPE_LABELS: Record<WeightDtype, string> = {
+  fp32: 'fp32 (full)',
+  fp16: 'fp16 (half)',
+  q8: 'q8 (8-bit)',
+  q4: 'q4 (4-bit)',
+};
+
+const DEVICES = Object.keys(DEVICE_LABELS) as ExecutionDevice[];
+const DTYPES = Object.keys(DTYPE_LABELS) as WeightDtype[];
+
+export const loadRuntimeSettings = (): RuntimeSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && DEVICES.includes(stored.device) && DTYPES.includes(stored.dtype)) {
+      return { device: stored.device, dtype: stored.dtype };
+    }
+  } catch {
+    // Missing, malformed or inaccessible storage all fall back to the default
+  }
+  return DEFAULT_RUNTIME;
+};
+
+export const saveRuntimeSettings = (runtime: RuntimeSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runtime));
+  } catch {
+    // Not being able to remember the choice is harmless
+  }
+};
+
+// navigator.gpu is not in the TS DOM lib yet
+type GpuNavigator = Navigator & { gpu?: { requestAdapter: () => Promise<unknown | null> } };
+
+// Works on the main thread and in workers; an adapter is what the ONNX runtime needs to start
+export const detectWebGpu = async (): Promise<boolean> => {
+  const gpu = (navigator as GpuNavigator).gpu;
+  if (!gpu) return false;
+  try {
+    return (await gpu.requestAdapter()) !== null;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Combinations to try, in order, when loading: the requested one, then the same dtype on
+ * WASM, then the quantized and full-precision weights on WASM, which every model ships.
+ */
+export const runtimeCandidates = (requested: RuntimeSettings): RuntimeSettings[] => {
+  const candidates = [requested, { device: 'wasm', dtype: requested.dtype }, DEFAULT_RUNTIME, { device: 'wasm', dtype: 'fp32' }] as RuntimeSettings[];
+  return candidates.filter((c, i) => candidates.findIndex((o) => o.device === c.device && o.dtype === c.dtype) === i);
+};
+
+export const sameRuntime = (a: RuntimeSettings, b: RuntimeSettings) => a.device === b.device && a.dtype === b.dtype;
+
+export const describeRuntime = ({ device, dtype }: RuntimeSettings) => `${device === 'webgpu' ? 'WebGPU' : 'WASM'} · ${dtype}`;
@@ -0,0 +1,111 @@
+import { BoundingBox, DetectionResult } from '../types';
+import { boxArea, intersectionOverSmaller } from './geometry';
+
+export type Direction = 'left' | 'right' | 'up' | 'down';
+
+// Relations named in a summary; more than this reads as a list rather than a scene
+const MAX_RELATIONS = 3;
+
+const center = (box: BoundingBox) => ({ x: (box.xmin + box.xmax) / 2, y: (box.ymin + box.ymax) / 2 });
+
+/**
+ * Rough position of a box in a three by three grid, phrased the way a person would say it:
+ * "top left", "bottom", "center".
+ */
+export const describePosition = (box: BoundingBox): string => {
+  const { x, y } = center(box);
+  const row = y < 1 / 3 ? 'top' : y > 2 / 3 ? 'bottom' : '';
+  const column = x < 1 / 3 ? 'left' : x > 2 / 3 ? 'right' : '';
+  return [row, column].filter(Boolean).join(' ') || 'center';
+};
+
+// Accessible name of an overlay box
+export const describeDetection = (det: DetectionResult): string =>
+  `${det.label}, ${det.edited ? 'edited' : `${Math.round(det.score * 100)}% confidence`}, ${describePosition(det.box)}`;
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  person: 'people',
+  mouse: 'mice',
+  knife: 'knives',
+  sheep: 'sheep',
+  skis: 'skis',
+  scissors: 'scissors',
+};
+
+// Good enough for the COCO labels and typical zero-shot queries; only the last word changes
+export const pluralize = (label: string, count: number): string => {
+  if (count === 1) return label;
+  const words = label.split(' ');
+  const last = words.pop()!;
+  const lower = last.toLowerCase();
+  let plural: string;
+  if (IRREGULAR_PLURALS[lower]) plural = IRREGULAR_PLURALS[lower];
+  else if (/(s|x|z|ch|sh)$/.test(lower)) plural = `${last}es`;
+  else if (/[^aeiou]y$/.test(lower)) plural = `${last.slice(0, -1)}ies`;
+  else plural = `${last}s`;
+  return [...words, plural].join(' ');
+};
+
+const withArticle = (label: string) => `${/^[aeiou]/i.test(label) ? 'an' : 'a'} ${label}`;
+
+// How `a` sits relative to `b`, or null when they overlap too much for a direction to mean anything
+const relation = (a: BoundingBox, b: BoundingBox): string | null => {
+  if (intersectionOverSmaller(a, b) > 0.6) return null;
+  const ca = center(a);
+  const cb = center(b);
+  const dx = ca.x - cb.x;
+  const dy = ca.y - cb.y;
+  if (Math.abs(dx) >= Math.abs(dy)) return dx < 0 ? 'left of' : 'right of';
+  return dy < 0 ? 'above' : 'below';
+};
+
+/**
+ * Plain-language summary: counts per label, most frequent first, followed by a few spatial
+ * relations between the largest box of each label, e.g. "3 people, 2 dogs; a dog is left of a person".
+ */
+export const describeScene = (detections: DetectionResult[]): string => {
+  if (detections.length === 0) return 'No objects detected.';
+  const groups = new Map<string, DetectionResult[]>();
+  detections.forEach((det) => groups.set(det.label, [...(groups.get(det.label) ?? []), det]));
+  const ordered = Array.from(groups).sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+  const counts = ordered.map(([label, dets]) => `${dets.length} ${pluralize(label, dets.length)}`).join(', ');
+
+  // The largest box stands in for its label; pairs of big boxes are the ones people notice
+  const representatives = ordered
+    .map(([, dets]) => dets.reduce((best, det) => (boxArea(det.box) > boxArea(best.box) ? det : best)))
+    .sort((a, b) => boxArea(b.box) - boxArea(a.box));
+  const relations: string[] = [];
+  for (let i = 0; i < representatives.length && relations.length < MAX_RELATIONS; i++) {
+    for (let j = i + 1; j < representatives.length && relations.length < MAX_RELATIONS; j++) {
+      const subject = representatives[j];
+      const object = representatives[i];
+      const rel = relation(subject.box, object.box);
+      if (rel) relations.push(`${withArticle(subject.label)} is ${rel} ${withArticle(object.label)}`);
+    }
+  }
+  return `${counts}${relations.length > 0 ? `; ${relations.join(', ')}` : ''}.`;
+};
+
+/**
+ * The box to move to from `from` when an arrow key is pressed: the closest one whose center
+ * lies in that direction, with sideways distance counting double so moves stay in line.
+ * Returns null when nothing lies that way.
+ */
+export const findNeighbor = (detections: DetectionResult[], from: number, direction: Direction): number | null => {
+  const origin = center(detections[from].box);
+  let best: number | null = null;
+  let bestCost = Infinity;
+  detections.forEach((det, i) => {
+    if (i === from) return;
+    const { x, y } = center(det.box);
+    const along = { left: origin.x - x, right: x - origin.x, up: origin.y - y, down: y - origin.y }[direction];
+    const across = direction === 'left' || direction === 'right' ? Math.abs(y - origin.y) : Math.abs(x - origin.x);
+    if (along <= 0) return;
+    const cost = along + 2 * across;
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = i;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,16 @@
+export type OfflineStatus = 'unsupported' | 'development' | 'installing' | 'ready';
+
+// The precache list only exists in production builds, so the dev server never registers the worker
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => console.error('Service worker registration failed:', error));
+  });
+};
+
+export const getOfflineStatus = async (): Promise<OfflineStatus> => {
+  if (!('serviceWorker' in navigator)) return 'unsupported';
+  if (!import.meta.env.PROD) return 'development';
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration?.active ? 'ready' : 'installing';
+};
@@ -0,0 +1,102 @@
+import { BoundingBox, DetectionResult, MergeMethod, TilingSettings } from '../types';
+import { intersectionOverSmaller } from './geometry';
+
+// A tile in pixels of the original image
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_TILING: TilingSettings = {
+  enabled: false,
+  tileSize: 800,
+  overlap: 0.2,
+  includeFullImage: true,
+  merge: 'nms',
+  mergeThreshold: 0.5,
+};
+
+// Tile starts along one axis; the last tile is aligned to the far edge instead of overhanging it
+const axisOrigins = (length: number, tileSize: number, step: number): number[] => {
+  if (length <= tileSize) return [0];
+  const origins: number[] = [];
+  for (let start = 0; start + tileSize < length; start += step) origins.push(start);
+  origins.push(length - tileSize);
+  return origins;
+};
+
+/**
+ * Covers the image with square tiles of `tileSize` pixels (clipped for images smaller than a
+ * tile) that overlap their neighbours by `overlap` of a tile, row by row.
+ */
+export const computeTiles = (width: number, height: number, tileSize: number, overlap: number): Tile[] => {
+  const step = Math.max(1, Math.round(tileSize * (1 - overlap)));
+  const tileWidth = Math.min(tileSize, width);
+  const tileHeight = Math.min(tileSize, height);
+  const tiles: Tile[] = [];
+  for (const y of axisOrigins(height, tileSize, step)) {
+    for (const x of axisOrigins(width, tileSize, step)) {
+      tiles.push({ x, y, width: tileWidth, height: tileHeight });
+    }
+  }
+  return tiles;
+};
+
+// Normalized tile-local box -> normalized full-image box
+export const tileBoxToImage = (box: BoundingBox, tile: Tile, width: number, height: number): BoundingBox => ({
+  xmin: (tile.x + box.xmin * tile.width) / width,
+  ymin: (tile.y + box.ymin * tile.height) / height,
+  xmax: (tile.x + box.xmax * tile.width) / width,
+  ymax: (tile.y + box.ymax * tile.height) / height,
+});
+
+export const tileToNormalized = (tile: Tile, width: number, height: number): BoundingBox =>
+  tileBoxToImage({ xmin: 0, ymin: 0, xmax: 1, ymax: 1 }, tile, width, height);
+
+const byLabel = (detections: DetectionResult[]): DetectionResult[][] => {
+  const groups = new Map<string, DetectionResult[]>();
+  for (const det of detections) groups.set(det.label, [...(groups.get(det.label) ?? []), det]);
+  return Array.from(groups.values());
+};
+
+const nmsMerge = (detections: DetectionResult[], threshold: number): DetectionResult[] => {
+  const kept: DetectionResult[] = [];
+  for (const det of [...detections].sort((a, b) => b.score - a.score)) {
+    if (kept.every((k) => intersectionOverSmaller(k.box, det.box) <= threshold)) kept.push(det);
+  }
+  return kept;
+};
+
+/**
+ * Weighted box fusion (Solovyev et al.): overlapping boxes are clustered and replaced by
+ * their score-weighted average box with the mean score of the cluster.
+ */
+const wbfMerge = (detections: DetectionResult[], threshold: number): DetectionResult[] => {
+  const clusters: { members: DetectionResult[]; fused: DetectionResult }[] = [];
+  for (const det of [...detections].sort((a, b) => b.score - a.score)) {
+    const cluster = clusters.find((c) => intersectionOverSmaller(c.fused.box, det.box) > threshold);
+    if (!cluster) {
+      clusters.push({ members: [det], fused: det });
+      continue;
+    }
+    cluster.members.push(det);
+    const total = cluster.members.reduce((sum, m) => sum + m.score, 0);
+    const weighted = (key: keyof BoundingBox) => cluster.members.reduce((sum, m) => sum + m.box[key] * m.score, 0) / total;
+    cluster.fused = {
+      label: det.label,
+      score: total / cluster.members.length,
+      box: { xmin: weighted('xmin'), ymin: weighted('ymin'), xmax: weighted('xmax'), ymax: weighted('ymax') },
+    };
+  }
+  return clusters.map((c) => c.fused);
+};
+
+/**
+ * Merges detections collected from overlapping tiles. Only boxes of the same label are merged.
+ * Overlap is measured as intersection over the smaller box, so a box cut off at a tile seam
+ * still matches the complete box from the neighbouring tile or the full-image pass.
+ */
+export const mergeDetections = (detections: DetectionResult[], method: MergeMethod, threshold: number): DetectionResult[] =>
+  byLabel(detections).flatMap((group) => (method === 'wbf' ? wbfMerge(group, threshold) : nmsMerge(group, threshold)));
@@ -0,0 +1,86 @@
+import { PostProcessSettings, TrackedDetection, VideoFrameResult } from '../types';
+import { applyPostProcessing } from './postprocess';
+import { createTracker, TrackerOptions } from './tracker';
+
+export interface TrackedFrame {
+  time: number;
+  detections: TrackedDetection[];
+}
+
+// Presence intervals in seconds, end exclusive
+export type Segment = [number, number];
+
+export interface TimelineRow {
+  label: string;
+  // Undefined for the per-label summary row
+  trackId?: number;
+  segments: Segment[];
+}
+
+export interface FrameTracker {
+  // Tracks one more frame, continuing from the frames added before it
+  add: (frame: VideoFrameResult) => TrackedFrame;
+}
+
+/**
+ * Runs the tracker over raw frames in order. Tracking is cheap compared to inference, so
+ * filters can change after analysis and the stored frames are re-tracked from scratch.
+ */
+export const createFrameTracker = (filters: PostProcessSettings, options?: Partial<TrackerOptions>): FrameTracker => {
+  const tracker = createTracker(options);
+  return { add: ({ time, detections }) => ({ time, detections: tracker.update(applyPostProcessing(detections, filters)) }) };
+};
+
+// Index of the last frame at or before `time`, or -1
+export const frameIndexAt = (frames: { time: number }[], time: number): number => {
+  let lo = 0;
+  let hi = frames.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].time <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Each sample covers `interval` seconds; samples closer than that merge into one segment
+const addSample = (segments: Segment[], time: number, interval: number) => {
+  const last = segments[segments.length - 1];
+  if (last && time - last[1] < interval / 2) last[1] = time + interval;
+  else segments.push([time, time + interval]);
+};
+
+/**
+ * One summary row per label followed by a row per track of that label, labels ordered
+ * by first appearance and tracks by id.
+ */
+export const buildTimelineRows = (frames: TrackedFrame[], interval: number): TimelineRow[] => {
+  const labelRows = new Map<string, TimelineRow>();
+  const trackRows = new Map<number, TimelineRow>();
+  for (const { time, detections } of frames) {
+    const labels = new Set<string>();
+    for (const det of detections) {
+      labels.add(det.label);
+      const row = trackRows.get(det.trackId) ?? { label: det.label, trackId: det.trackId, segments: [] };
+      addSample(row.segments, time, interval);
+      trackRows.set(det.trackId, row);
+    }
+    labels.forEach((label) => {
+      const row = labelRows.get(label) ?? { label, segments: [] };
+      addSample(row.segments, time, interval);
+      labelRows.set(label, row);
+    });
+  }
+  const tracks = Array.from(trackRows.values()).sort((a, b) => a.trackId! - b.trackId!);
+  return Array.from(labelRows.values()).flatMap((row) => [row, ...tracks.filter((t) => t.label === row.label)]);
+};
+
+export const trackCaption = (det: TrackedDetection) => `#${det.trackId} ${det.label}`;
+
+export const countTracks = (frames: TrackedFrame[]): number =>
+  new Set(frames.flatMap((frame) => frame.detections.map((det) => det.trackId))).size;
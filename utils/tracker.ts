@@ -0,0 +1,226 @@
+import { BoundingBox, DetectionResult, TrackedDetection } from '../types';
+import { iou } from './geometry';
+
+/**
+ * SORT-style multi-object tracker (Bewley et al., 2016): a constant-velocity Kalman
+ * filter per track, optimal IoU assignment between predicted and detected boxes, and
+ * simple birth/death rules. It only sees per-frame detections, never pixels, so it
+ * can be driven by synthetic box sequences.
+ */
+
+export interface TrackerOptions {
+  // Minimum IoU between a predicted track box and a detection for them to be linked
+  iouThreshold: number;
+  // Frames a track survives without a matching detection
+  maxAge: number;
+  // Consecutive hits before a track is reported (waived during the first frames)
+  minHits: number;
+}
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+  iouThreshold: 0.3,
+  maxAge: 3,
+  minHits: 3,
+};
+
+// Noise in normalized image units. Velocities start very uncertain so the first
+// matches determine them, as in SORT.
+const MEASUREMENT_VAR = 0.01 ** 2;
+const POSITION_PROCESS_VAR = 0.005 ** 2;
+const VELOCITY_PROCESS_VAR = 0.0025 ** 2;
+const INITIAL_VELOCITY_VAR = 0.1 ** 2;
+const MIN_SIZE = 1e-4;
+
+/**
+ * One coordinate with its velocity. SORT's state matrices are block-diagonal per
+ * coordinate, so four of these are equivalent to its joint filter and far simpler.
+ */
+interface Axis {
+  x: number;
+  v: number;
+  // Covariance [[p00, p01], [p01, p11]]
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+const createAxis = (x: number): Axis => ({ x, v: 0, p00: MEASUREMENT_VAR, p01: 0, p11: INITIAL_VELOCITY_VAR });
+
+const predictAxis = (a: Axis) => {
+  a.x += a.v;
+  a.p00 += 2 * a.p01 + a.p11 + POSITION_PROCESS_VAR;
+  a.p01 += a.p11;
+  a.p11 += VELOCITY_PROCESS_VAR;
+};
+
+const updateAxis = (a: Axis, z: number) => {
+  const s = a.p00 + MEASUREMENT_VAR;
+  const k0 = a.p00 / s;
+  const k1 = a.p01 / s;
+  const y = z - a.x;
+  a.x += k0 * y;
+  a.v += k1 * y;
+  a.p11 -= k1 * a.p01;
+  a.p01 *= 1 - k0;
+  a.p00 *= 1 - k0;
+};
+
+// Boxes are filtered as centre and size: [cx, cy, w, h]
+const toMeasurement = (box: BoundingBox): number[] => [
+  (box.xmin + box.xmax) / 2,
+  (box.ymin + box.ymax) / 2,
+  box.xmax - box.xmin,
+  box.ymax - box.ymin,
+];
+
+const toBox = (axes: Axis[]): BoundingBox => {
+  const [cx, cy] = [axes[0].x, axes[1].x];
+  const w = Math.max(MIN_SIZE, axes[2].x);
+  const h = Math.max(MIN_SIZE, axes[3].x);
+  return { xmin: cx - w / 2, ymin: cy - h / 2, xmax: cx + w / 2, ymax: cy + h / 2 };
+};
+
+interface TrackState {
+  id: number;
+  label: string;
+  score: number;
+  axes: Axis[];
+  hitStreak: number;
+  timeSinceUpdate: number;
+}
+
+/**
+ * Minimum-cost assignment (Hungarian algorithm, O(n²m)). Returns, for every row, the
+ * assigned column or -1 when there are more rows than columns.
+ */
+export const solveAssignment = (cost: number[][]): number[] => {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return new Array(rows).fill(-1);
+  if (rows > cols) {
+    const transposed = cost[0].map((_, j) => cost.map((row) => row[j]));
+    const byCol = solveAssignment(transposed);
+    const result = new Array(rows).fill(-1);
+    byCol.forEach((row, col) => {
+      if (row >= 0) result[row] = col;
+    });
+    return result;
+  }
+
+  // Potentials-based formulation, 1-indexed with column 0 as a virtual start
+  const u = new Array(rows + 1).fill(0);
+  const v = new Array(cols + 1).fill(0);
+  const match = new Array(cols + 1).fill(0);
+  const way = new Array(cols + 1).fill(0);
+  for (let i = 1; i <= rows; i++) {
+    match[0] = i;
+    let j0 = 0;
+    const minv = new Array(cols + 1).fill(Infinity);
+    const used = new Array(cols + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = match[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= cols; j++) {
+        if (used[j]) continue;
+        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= cols; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (match[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      match[j0] = match[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const result = new Array(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (match[j] > 0) result[match[j] - 1] = j - 1;
+  }
+  return result;
+};
+
+export interface Tracker {
+  // Feed the detections of the next frame; returns the confirmed tracks seen in it
+  update: (detections: DetectionResult[]) => TrackedDetection[];
+  reset: () => void;
+}
+
+export const createTracker = (options: Partial<TrackerOptions> = {}): Tracker => {
+  const { iouThreshold, maxAge, minHits } = { ...DEFAULT_TRACKER_OPTIONS, ...options };
+  let tracks: TrackState[] = [];
+  let nextId = 1;
+  let frame = 0;
+
+  const update = (detections: DetectionResult[]): TrackedDetection[] => {
+    frame++;
+    for (const track of tracks) {
+      track.axes.forEach(predictAxis);
+      if (track.timeSinceUpdate > 0) track.hitStreak = 0;
+      track.timeSinceUpdate++;
+    }
+
+    // Tracks only ever match detections of their own label
+    const predicted = tracks.map((track) => toBox(track.axes));
+    const cost = tracks.map((track, t) =>
+      detections.map((det) => (det.label === track.label ? 1 - iou(predicted[t], det.box) : 1)),
+    );
+    const assignment = solveAssignment(cost);
+
+    const matched = new Set<number>();
+    assignment.forEach((d, t) => {
+      if (d < 0 || 1 - cost[t][d] < iouThreshold) return;
+      const track = tracks[t];
+      const det = detections[d];
+      toMeasurement(det.box).forEach((z, k) => updateAxis(track.axes[k], z));
+      track.score = det.score;
+      track.hitStreak++;
+      track.timeSinceUpdate = 0;
+      matched.add(d);
+    });
+
+    detections.forEach((det, d) => {
+      if (matched.has(d)) return;
+      tracks.push({
+        id: nextId++,
+        label: det.label,
+        score: det.score,
+        axes: toMeasurement(det.box).map(createAxis),
+        hitStreak: 1,
+        timeSinceUpdate: 0,
+      });
+    });
+
+    tracks = tracks.filter((track) => track.timeSinceUpdate <= maxAge);
+
+    return tracks
+      .filter((track) => track.timeSinceUpdate === 0 && (track.hitStreak >= minHits || frame <= minHits))
+      .map((track) => ({ box: toBox(track.axes), label: track.label, score: track.score, trackId: track.id }));
+  };
+
+  const reset = () => {
+    tracks = [];
+    nextId = 1;
+    frame = 0;
+  };
+
+  return { update, reset };
+};
@@ -0,0 +1,249 @@
+import { Point, TrackedDetection, ZoneLayout } from '../types';
+import { TrackedFrame } from './trackTimeline';
+import { boxCentroid, crossingDirection, zoneContains, zoneOccupancy } from './zones';
+import { csvCell } from './exporters';
+
+export interface LineCount {
+  forward: number;
+  backward: number;
+}
+
+// One stay of a track inside a zone, in seconds; exit is null while it is still inside
+export interface ZoneVisit {
+  zoneId: string;
+  trackId: number;
+  label: string;
+  enter: number;
+  exit: number | null;
+}
+
+export interface CounterSample {
+  time: number;
+  // zone id -> label -> objects inside at this time
+  occupancy: Record<string, Record<string, number>>;
+  // line id -> label -> crossings so far
+  crossings: Record<string, Record<string, LineCount>>;
+}
+
+export interface DwellSummary {
+  visits: number;
+  averageSeconds: number;
+  longestSeconds: number;
+}
+
+export interface ZoneCounter {
+  update: (time: number, detections: TrackedDetection[]) => CounterSample;
+  // The retained visits, oldest first; see `maxVisits`
+  visits: () => ZoneVisit[];
+  // Dwell per zone id over every visit so far, including ones no longer retained
+  dwell: (now: number) => Record<string, DwellSummary>;
+  reset: () => void;
+}
+
+// Seconds a track may go unseen (occlusion, a missed frame) before its open visits end
+export const DEFAULT_EXIT_GRACE = 1;
+
+interface DwellTotals {
+  visits: number;
+  totalSeconds: number;
+  longestSeconds: number;
+}
+
+interface TrackState {
+  centroid: Point;
+  lastSeen: number;
+  // zone id -> open visit
+  open: Map<string, ZoneVisit>;
+}
+
+const copyCrossings = (crossings: CounterSample['crossings']): CounterSample['crossings'] =>
+  Object.fromEntries(Object.entries(crossings).map(([id, byLabel]) => [
+    id,
+    Object.fromEntries(Object.entries(byLabel).map(([label, count]) => [label, { ...count }])),
+  ]));
+
+const toDwellSummary = ({ visits, totalSeconds, longestSeconds }: DwellTotals): DwellSummary => ({
+  visits,
+  averageSeconds: visits > 0 ? totalSeconds / visits : 0,
+  longestSeconds,
+});
+
+/**
+ * Turns tracked detections into zone and line statistics. Objects are represented by
+ * their box centroid; a crossing is counted when a track's centroid moves across a line
+ * between two frames it was seen in, so the detections must carry stable track ids.
+ * Dwell totals are kept as visits close, so only `maxVisits` of the visits themselves
+ * have to be held on to for export.
+ */
+export const createZoneCounter = (layout: ZoneLayout, exitGrace = DEFAULT_EXIT_GRACE, maxVisits = Infinity): ZoneCounter => {
+  let tracks = new Map<number, TrackState>();
+  let visits: ZoneVisit[] = [];
+  let open = new Set<ZoneVisit>();
+  let closed = new Map<string, DwellTotals>();
+  let crossings: CounterSample['crossings'] = {};
+
+  const reset = () => {
+    tracks = new Map();
+    visits = [];
+    open = new Set();
+    closed = new Map(layout.zones.map((zone) => [zone.id, { visits: 0, totalSeconds: 0, longestSeconds: 0 }]));
+    crossings = Object.fromEntries(layout.lines.map((line) => [line.id, {}]));
+  };
+  reset();
+
+  const close = (visit: ZoneVisit, time: number) => {
+    visit.exit = time;
+    open.delete(visit);
+    const totals = closed.get(visit.zoneId)!;
+    const seconds = time - visit.enter;
+    totals.visits++;
+    totals.totalSeconds += seconds;
+    totals.longestSeconds = Math.max(totals.longestSeconds, seconds);
+  };
+
+  // Drops the oldest finished visits; open ones stay so they can still be closed and exported
+  const trimVisits = () => {
+    while (visits.length > maxVisits) {
+      const index = visits.findIndex((visit) => visit.exit !== null);
+      if (index < 0) return;
+      visits.splice(index, 1);
+    }
+  };
+
+  const update = (time: number, detections: TrackedDetection[]): CounterSample => {
+    for (const det of detections) {
+      const centroid = boxCentroid(det.box);
+      const state = tracks.get(det.trackId) ?? { centroid, lastSeen: time, open: new Map() };
+
+      for (const line of layout.lines) {
+        const direction = crossingDirection(state.centroid, centroid, line);
+        if (!direction) continue;
+        const count = (crossings[line.id][det.label] ??= { forward: 0, backward: 0 });
+        count[direction]++;
+      }
+
+      for (const zone of layout.zones) {
+        const inside = zoneContains(zone, det);
+        const visit = state.open.get(zone.id);
+        if (inside && !visit) {
+          const entered: ZoneVisit = { zoneId: zone.id, trackId: det.trackId, label: det.label, enter: time, exit: null };
+          visits.push(entered);
+          open.add(entered);
+          state.open.set(zone.id, entered);
+        } else if (!inside && visit) {
+          close(visit, time);
+          state.open.delete(zone.id);
+        }
+      }
+
+      state.centroid = centroid;
+      state.lastSeen = time;
+      tracks.set(det.trackId, state);
+    }
+
+    // Tracks gone for good leave their zones at the last time they were seen
+    tracks.forEach((state, id) => {
+      if (time - state.lastSeen <= exitGrace) return;
+      state.open.forEach((visit) => close(visit, state.lastSeen));
+      tracks.delete(id);
+    });
+    trimVisits();
+
+    return { time, occupancy: zoneOccupancy(layout.zones, detections), crossings: copyCrossings(crossings) };
+  };
+
+  // Open visits count up to `now`, as in summarizeDwell
+  const dwell = (now: number): Record<string, DwellSummary> => {
+    const totals = new Map(Array.from(closed, ([id, t]) => [id, { ...t }]));
+    open.forEach((visit) => {
+      const seconds = Math.max(0, now - visit.enter);
+      const zone = totals.get(visit.zoneId)!;
+      zone.visits++;
+      zone.totalSeconds += seconds;
+      zone.longestSeconds = Math.max(zone.longestSeconds, seconds);
+    });
+    return Object.fromEntries(Array.from(totals, ([id, t]) => [id, toDwellSummary(t)]));
+  };
+
+  return { update, visits: () => visits.map((visit) => ({ ...visit })), dwell, reset };
+};
+
+// Replays stored video frames through a fresh counter
+export const countFrames = (frames: TrackedFrame[], layout: ZoneLayout): { samples: CounterSample[]; visits: ZoneVisit[] } => {
+  const counter = createZoneCounter(layout);
+  const samples = frames.map(({ time, detections }) => counter.update(time, detections));
+  return { samples, visits: counter.visits() };
+};
+
+export const lineTotal = (byLabel: Record<string, LineCount> | undefined): LineCount =>
+  Object.values(byLabel ?? {}).reduce(
+    (sum, count) => ({ forward: sum.forward + count.forward, backward: sum.backward + count.backward }),
+    { forward: 0, backward: 0 },
+  );
+
+// Open visits count up to `now`, so the numbers move while someone is still inside
+export const summarizeDwell = (visits: ZoneVisit[], zoneId: string, now: number): DwellSummary => {
+  const durations = visits
+    .filter((visit) => visit.zoneId === zoneId && visit.enter <= now)
+    .map((visit) => Math.min(visit.exit ?? now, now) - visit.enter);
+  return {
+    visits: durations.length,
+    averageSeconds: durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : 0,
+    longestSeconds: durations.length > 0 ? Math.max(...durations) : 0,
+  };
+};
+
+export const summarizeDwellByZone = (visits: ZoneVisit[], layout: ZoneLayout, now: number): Record<string, DwellSummary> =>
+  Object.fromEntries(layout.zones.map((zone) => [zone.id, summarizeDwell(visits, zone.id, now)]));
+
+/**
+ * Wide time series: one row per sample, with occupancy per zone and label (plus a total)
+ * and cumulative crossings per line, label and direction.
+ */
+export const toCounterCsv = (samples: CounterSample[], layout: ZoneLayout): string => {
+  const zoneLabels = layout.zones.map((zone) =>
+    Array.from(new Set(samples.flatMap((s) => Object.keys(s.occupancy[zone.id] ?? {})))).sort());
+  const lineLabels = layout.lines.map((line) =>
+    Array.from(new Set(samples.flatMap((s) => Object.keys(s.crossings[line.id] ?? {})))).sort());
+
+  const header = ['time_s'];
+  layout.zones.forEach((zone, i) => {
+    zoneLabels[i].forEach((label) => header.push(`${zone.name} ${label}`));
+    header.push(`${zone.name} total`);
+  });
+  layout.lines.forEach((line, i) => {
+    lineLabels[i].forEach((label) => header.push(`${line.name} ${label} forward`, `${line.name} ${label} backward`));
+    header.push(`${line.name} forward`, `${line.name} backward`);
+  });
+
+  const rows = samples.map((sample) => {
+    const row: (string | number)[] = [Number(sample.time.toFixed(3))];
+    layout.zones.forEach((zone, i) => {
+      const counts = sample.occupancy[zone.id] ?? {};
+      zoneLabels[i].forEach((label) => row.push(counts[label] ?? 0));
+      row.push(Object.values(counts).reduce((a, b) => a + b, 0));
+    });
+    layout.lines.forEach((line, i) => {
+      const counts = sample.crossings[line.id] ?? {};
+      lineLabels[i].forEach((label) => row.push(counts[label]?.forward ?? 0, counts[label]?.backward ?? 0));
+      const total = lineTotal(counts);
+      row.push(total.forward, total.backward);
+    });
+    return row;
+  });
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+export const toVisitsCsv = (visits: ZoneVisit[], layout: ZoneLayout): string => {
+  const names = new Map(layout.zones.map((zone) => [zone.id, zone.name]));
+  const header = ['zone', 'track', 'label', 'enter_s', 'exit_s', 'dwell_s'];
+  const rows = visits.map((visit) => [
+    names.get(visit.zoneId) ?? visit.zoneId,
+    visit.trackId,
+    visit.label,
+    Number(visit.enter.toFixed(3)),
+    visit.exit === null ? '' : Number(visit.exit.toFixed(3)),
+    visit.exit === null ? '' : Number((visit.exit - visit.enter).toFixed(3)),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,114 @@
+import { BoundingBox, CountingLine, DetectionResult, Point, Zone, ZoneLayout } from '../types';
+
+export const EMPTY_LAYOUT: ZoneLayout = { zones: [], lines: [] };
+
+const LAYOUT_VERSION = 1;
+
+export const boxCentroid = (box: BoundingBox): Point => ({
+  x: (box.xmin + box.xmax) / 2,
+  y: (box.ymin + box.ymax) / 2,
+});
+
+// Even-odd ray casting
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+// Positive on the right-hand side of start -> end (image y points down), negative on the left
+export const sideOfLine = (p: Point, line: CountingLine): number =>
+  (line.end.x - line.start.x) * (p.y - line.start.y) - (line.end.y - line.start.y) * (p.x - line.start.x);
+
+/**
+ * Direction in which the move from `from` to `to` crosses the line segment, or null when
+ * it does not cross it. Touching the line without passing it is not a crossing.
+ */
+export const crossingDirection = (from: Point, to: Point, line: CountingLine): 'forward' | 'backward' | null => {
+  const before = sideOfLine(from, line);
+  const after = sideOfLine(to, line);
+  if (before === 0 || Math.sign(before) === Math.sign(after) || after === 0) return null;
+  // The line's endpoints must also lie on opposite sides of the movement
+  const move: CountingLine = { id: '', name: '', start: from, end: to };
+  if (Math.sign(sideOfLine(line.start, move)) === Math.sign(sideOfLine(line.end, move))) return null;
+  return before < 0 ? 'forward' : 'backward';
+};
+
+export const zoneContains = (zone: Zone, det: DetectionResult): boolean =>
+  pointInPolygon(boxCentroid(det.box), zone.points);
+
+// zone id -> label -> objects inside
+export const zoneOccupancy = (zones: Zone[], detections: DetectionResult[]): Record<string, Record<string, number>> =>
+  Object.fromEntries(zones.map((zone) => {
+    const counts: Record<string, number> = {};
+    for (const det of detections) {
+      if (zoneContains(zone, det)) counts[det.label] = (counts[det.label] ?? 0) + 1;
+    }
+    return [zone.id, counts];
+  }));
+
+export const polygonCenter = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+let layoutIdSeq = 0;
+export const createLayoutId = (prefix: 'zone' | 'line') => `${prefix}-${Date.now().toString(36)}-${++layoutIdSeq}`;
+
+export const serializeLayout = (layout: ZoneLayout): string =>
+  JSON.stringify({ version: LAYOUT_VERSION, ...layout }, null, 2);
+
+interface LayoutFile {
+  version?: number;
+  zones?: { id?: string; name?: string; points?: Point[] }[];
+  lines?: { id?: string; name?: string; start?: Point; end?: Point }[];
+}
+
+const isPoint = (p: Point | undefined): p is Point =>
+  !!p && typeof p.x === 'number' && typeof p.y === 'number' && Number.isFinite(p.x) && Number.isFinite(p.y);
+
+/**
+ * Reads a layout saved by serializeLayout. Ids are kept so exported counters of the same
+ * camera stay comparable; missing names are filled in rather than rejected.
+ */
+export const parseLayout = (text: string): ZoneLayout => {
+  let file: LayoutFile;
+  try {
+    file = JSON.parse(text) as LayoutFile;
+  } catch {
+    throw new Error('The zone file is not valid JSON.');
+  }
+  if (!file || (!Array.isArray(file.zones) && !Array.isArray(file.lines))) {
+    throw new Error('The zone file has no "zones" or "lines" list.');
+  }
+  const zones = (Array.isArray(file.zones) ? file.zones : []).map((z, i): Zone => {
+    if (!Array.isArray(z?.points) || z.points.length < 3 || !z.points.every(isPoint)) {
+      throw new Error(`Zone ${i + 1} needs at least three points with numeric x and y.`);
+    }
+    return {
+      id: String(z.id ?? createLayoutId('zone')),
+      name: String(z.name ?? `Zone ${i + 1}`),
+      points: z.points.map(({ x, y }) => ({ x, y })),
+    };
+  });
+  const lines = (Array.isArray(file.lines) ? file.lines : []).map((l, i): CountingLine => {
+    if (!isPoint(l?.start) || !isPoint(l?.end)) {
+      throw new Error(`Line ${i + 1} needs a start and an end point with numeric x and y.`);
+    }
+    return {
+      id: String(l.id ?? createLayoutId('line')),
+      name: String(l.name ?? `Line ${i + 1}`),
+      start: { x: l.start.x, y: l.start.y },
+      end: { x: l.end.x, y: l.end.y },
+    };
+  });
+  return { zones, lines };
+};
+
+// Changes only when counting would change: renaming keeps running counters intact
+export const layoutGeometryKey = (layout: ZoneLayout): string =>
+  JSON.stringify([layout.zones.map((z) => [z.id, z.points]), layout.lines.map((l) => [l.id, l.start, l.end])]);
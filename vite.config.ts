@@ -1,7 +1,36 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes precache-manifest.json listing every built file, for public/sw.js to cache on install.
+// Local model weights placed under public/models are left to the model cache instead.
+const precacheManifest = (): Plugin => {
+  let outDir = 'dist';
+  const skip = (file: string) =>
+    file.endsWith('.map') || file.startsWith('models/') || file === 'sw.js' || file === 'precache-manifest.json';
+  const walk = (dir: string): string[] =>
+    fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      const full = path.join(dir, entry.name);
+      return entry.isDirectory() ? walk(full) : [path.relative(outDir, full).split(path.sep).join('/')];
+    });
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    closeBundle() {
+      const files = walk(outDir).filter((file) => !skip(file)).sort();
+      const hash = crypto.createHash('sha256');
+      files.forEach((file) => hash.update(file).update(fs.readFileSync(path.join(outDir, file))));
+      const manifest = { version: hash.digest('hex').slice(0, 12), files };
+      fs.writeFileSync(path.join(outDir, 'precache-manifest.json'), JSON.stringify(manifest, null, 2));
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +38,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
+      worker: {
+        // transformers.js pulls in dynamic imports, which the default iife worker build cannot split
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
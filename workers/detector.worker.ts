@@ -0,0 +1,397 @@
+import { env, pipeline, ImageSegmentationPipeline, PretrainedModelOptions, ObjectDetectionPipeline, RawImage, ZeroShotObjectDetectionPipeline } from '@huggingface/transformers';
+import {
+  DetectionResult,
+  DetectOptions,
+  ModelOrigin,
+  ModelSource,
+  ModelTask,
+  RuntimeFallback,
+  RuntimeSettings,
+  SegmentationResult,
+  StageTiming,
+  WorkerRequest,
+  WorkerResponse,
+} from '../types';
+import { MODEL_CACHE_NAME } from '../utils/modelCache';
+import { findFolderFile } from '../utils/modelSources';
+import { cropMask, hasMask } from '../utils/masks';
+import { classifyError } from '../utils/errors';
+import { detectWebGpu, runtimeCandidates, sameRuntime } from '../utils/runtime';
+
+// The TS config only ships the DOM lib, so describe the bits of the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const post = (message: WorkerResponse, transfer?: Transferable[]) => scope.postMessage(message, transfer);
+
+interface DetectJob {
+  id: number;
+  image: ImageBitmap;
+  options: DetectOptions;
+}
+
+type DetectorPipeline = ObjectDetectionPipeline | ZeroShotObjectDetectionPipeline | ImageSegmentationPipeline;
+
+// Called with the union of our tasks, pipeline()'s return type is too large for the compiler to expand
+const createTaskPipeline = pipeline as (task: ModelTask, model: string, options: PretrainedModelOptions) => Promise<DetectorPipeline>;
+
+// The part of a processor or model that timeStage wraps
+interface StagedCallable {
+  _call: (...args: unknown[]) => Promise<unknown>;
+}
+
+let detector: DetectorPipeline | null = null;
+let loadedModel: string | null = null;
+let loadedTask: ModelTask | null = null;
+// Identifies where the loaded pipeline was read from; a different source forces a reload
+let loadedSourceKey: string | null = null;
+let loadedOrigin: ModelOrigin = 'network';
+// What the last load asked for and what it ended up running on
+let requestedRuntime: RuntimeSettings | null = null;
+let loadedRuntime: RuntimeSettings | null = null;
+let loadedFallbacks: RuntimeFallback[] = [];
+let queue: DetectJob[] = [];
+let running: DetectJob | null = null;
+// Settles once the running job, including any rebuild after it, is finished
+let runningDone: Promise<void> | null = null;
+let draining = false;
+// The last load in a chain of loads that run one after another; jobs that arrive meanwhile wait for it
+let loading: Promise<void> | null = null;
+// Set once disposal has started; loads still in the chain are skipped
+let disposing = false;
+// Ids cancelled while their inference was already running; the result is dropped when it lands
+const cancelledWhileRunning = new Set<number>();
+// Time the running job spent in the processor and the model, filled in by timeStage
+const stageClock = { preprocess: 0, inference: 0 };
+
+// Production builds ship the ONNX runtime next to the app; use it instead of the jsDelivr copy so nothing is fetched from a CDN
+if (import.meta.env.PROD) env.backends.onnx.wasm!.wasmPaths = undefined;
+
+let source: ModelSource | null = null;
+let loadingModel: string | null = null;
+let folderFiles = new Map<string, File>();
+// Origins of the files read by the load in progress
+const origins = new Set<ModelOrigin>();
+
+const openBrowserCache = async () => {
+  try {
+    return await caches.open(MODEL_CACHE_NAME);
+  } catch {
+    // Cache Storage can be blocked (e.g. private windows); files are then fetched every time
+    return undefined;
+  }
+};
+
+/**
+ * Sits in front of the browser cache transformers.js would use anyway. It serves files from
+ * a picked folder and records whether each file was a cache hit or had to be fetched.
+ */
+const modelFileCache = {
+  match: async (key: string) => {
+    const file = source?.mode === 'folder' && loadingModel ? findFolderFile(folderFiles, loadingModel, key) : undefined;
+    if (file) {
+      origins.add('folder');
+      return new Response(file, { headers: { 'Content-Length': String(file.size) } });
+    }
+    const cached = await (await openBrowserCache())?.match(key);
+    if (cached) origins.add('cache');
+    return cached;
+  },
+  // Only called for files that were just fetched
+  put: async (key: string, response: Response) => {
+    origins.add(source?.mode === 'hub' ? 'network' : 'local');
+    await (await openBrowserCache())?.put(key, response);
+  },
+};
+
+const configureSource = (next: ModelSource) => {
+  source = next;
+  folderFiles = new Map((next.files ?? []).map(({ path, file }) => [path, file]));
+  env.allowRemoteModels = next.mode === 'hub';
+  env.allowLocalModels = next.mode !== 'hub';
+  env.localModelPath = next.localPath;
+  env.useBrowserCache = false;
+  env.useCustomCache = true;
+  env.customCache = modelFileCache;
+};
+
+const sourceKey = (next: ModelSource) => {
+  if (next.mode === 'folder') return `folder:${(next.files ?? []).map(({ path, file }) => `${path}:${file.size}`).join('|')}`;
+  return next.mode === 'local' ? `local:${next.localPath}` : 'hub';
+};
+
+// Anything fetched outweighs cache hits; a load that only touched the cache reports 'cache'
+const summarizeOrigins = (): ModelOrigin => {
+  for (const origin of ['network', 'local', 'folder'] as ModelOrigin[]) {
+    if (origins.has(origin)) return origin;
+  }
+  return 'cache';
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Pipelines call their processor and model through `_call`, so wrapping it on the instance
+ * measures those stages without re-implementing each pipeline.
+ */
+const timeStage = (target: StagedCallable, stage: keyof typeof stageClock) => {
+  const call = target._call.bind(target);
+  target._call = async (...args) => {
+    const start = performance.now();
+    try {
+      return await call(...args);
+    } finally {
+      stageClock[stage] += performance.now() - start;
+    }
+  };
+};
+
+const createPipeline = async (model: string, task: ModelTask, runtime: RuntimeSettings) => {
+  if (runtime.device === 'webgpu' && !(await detectWebGpu())) throw new Error('WebGPU is not available in this browser.');
+  const created = await createTaskPipeline(task, model, {
+    device: runtime.device,
+    dtype: runtime.dtype,
+    progress_callback: (data) => {
+      post({
+        type: 'progress',
+        model,
+        status: data.status,
+        file: 'file' in data ? data.file : undefined,
+        progress: 'progress' in data ? data.progress : undefined,
+      });
+    },
+  });
+  timeStage(created.processor, 'preprocess');
+  timeStage(created.model, 'inference');
+  return created;
+};
+
+// A model that does not ship weights in the requested dtype, as opposed to the server being unreachable
+const isMissingFile = (error: unknown) => /could not locate file|\b404\b/i.test(errorMessage(error));
+
+/**
+ * Tries the requested device and dtype first, then falls back towards plain WASM. Each
+ * combination that fails is recorded with its reason; a download failure stops the search,
+ * since every other combination would fail the same way.
+ */
+const createWithFallback = async (model: string, task: ModelTask, runtime: RuntimeSettings) => {
+  const fallbacks: RuntimeFallback[] = [];
+  for (const candidate of runtimeCandidates(runtime)) {
+    try {
+      const created = await createPipeline(model, task, candidate);
+      return { created, runtime: candidate, fallbacks };
+    } catch (error) {
+      if (classifyError(error, 'unsupported-backend') === 'network' && !isMissingFile(error)) throw error;
+      console.warn(`Could not start ${model} on ${candidate.device}/${candidate.dtype}:`, error);
+      fallbacks.push({ runtime: candidate, reason: errorMessage(error) });
+    }
+  }
+  throw new Error(`No runtime could start the model. ${fallbacks.map((f) => `${f.runtime.device}/${f.runtime.dtype}: ${f.reason}`).join('; ')}`);
+};
+
+const load = async (id: number, model: string, task: ModelTask, nextSource: ModelSource, runtime: RuntimeSettings) => {
+  if (disposing) return;
+  try {
+    const key = sourceKey(nextSource);
+    const sameRequest = loadedModel === model && loadedTask === task && loadedSourceKey === key && !!requestedRuntime && sameRuntime(requestedRuntime, runtime);
+    // The pipeline may still be in use by the job that was running when this load arrived
+    if (!sameRequest) await runningDone;
+    if (detector && !sameRequest) {
+      await detector.dispose();
+      detector = null;
+      loadedModel = null;
+      loadedTask = null;
+      loadedSourceKey = null;
+    }
+    if (!detector) {
+      configureSource(nextSource);
+      loadingModel = model;
+      origins.clear();
+      const { created, runtime: used, fallbacks } = await createWithFallback(model, task, runtime);
+      detector = created;
+      loadedModel = model;
+      loadedTask = task;
+      loadedSourceKey = key;
+      loadedOrigin = summarizeOrigins();
+      requestedRuntime = runtime;
+      loadedRuntime = used;
+      loadedFallbacks = fallbacks;
+    }
+    post({ type: 'loaded', id, model, result: { origin: loadedOrigin, runtime: loadedRuntime!, fallbacks: loadedFallbacks } });
+  } catch (error) {
+    post({ type: 'error', id, kind: classifyError(error, 'unsupported-backend'), message: errorMessage(error) });
+  }
+};
+
+// A run that exhausted memory can leave the session unusable, so it is rebuilt before the next job
+const rebuildAfterFailure = async () => {
+  if (!detector || !loadedModel || !loadedTask || !loadedRuntime) return;
+  try {
+    await detector.dispose();
+  } catch {
+    // Disposing a broken session may throw as well; it is replaced either way
+  }
+  detector = null;
+  try {
+    detector = await createPipeline(loadedModel, loadedTask, loadedRuntime);
+  } catch (error) {
+    loadedModel = null;
+    loadedTask = null;
+    loadedSourceKey = null;
+    post({ type: 'error', kind: classifyError(error, 'out-of-memory'), message: `The model could not be restarted: ${errorMessage(error)}` });
+  }
+};
+
+// Reading the pixels here keeps it out of the pipeline call, so it is timed as pre-processing
+const bitmapToImage = (image: ImageBitmap): RawImage => {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  canvas.getContext('2d')!.drawImage(image, 0, 0);
+  image.close();
+  return RawImage.fromCanvas(canvas);
+};
+
+// Masks come back at the input size; crop each to its box so results stay small
+const runSegmentation = async (image: RawImage, options: DetectOptions): Promise<SegmentationResult[]> => {
+  const output = await (detector as ImageSegmentationPipeline)(image, { threshold: options.threshold, subtask: 'panoptic' });
+  const results: SegmentationResult[] = [];
+  for (const { label, score, mask } of output) {
+    const cropped = cropMask(mask.data, mask.width, mask.height);
+    if (cropped) results.push({ label: label ?? 'segment', score: score ?? 1, ...cropped });
+  }
+  return results;
+};
+
+const runPipeline = async (image: RawImage, options: DetectOptions): Promise<DetectionResult[]> => {
+  if (loadedTask === 'image-segmentation') return runSegmentation(image, options);
+  if (loadedTask === 'zero-shot-object-detection') {
+    const queries = options.queries ?? [];
+    if (queries.length === 0) return [];
+    // Per-query thresholds are applied on the UI thread, so they can change without re-running
+    const output = await (detector as ZeroShotObjectDetectionPipeline)(
+      image,
+      queries.map((q) => q.label),
+      { threshold: options.threshold, percentage: options.percentage },
+    );
+    return output as DetectionResult[];
+  }
+  const output = await (detector as ObjectDetectionPipeline)(image, {
+    threshold: options.threshold,
+    percentage: options.percentage,
+  });
+  return output as DetectionResult[];
+};
+
+const runJob = async (job: DetectJob) => {
+  stageClock.preprocess = 0;
+  stageClock.inference = 0;
+  try {
+    const start = performance.now();
+    const image = bitmapToImage(job.image);
+    const drawn = performance.now() - start;
+    const detections = await runPipeline(image, job.options);
+    if (cancelledWhileRunning.delete(job.id)) {
+      post({ type: 'cancelled', id: job.id });
+    } else {
+      // Whatever the processor and model did not account for is output decoding
+      const total = performance.now() - start;
+      const timing: StageTiming = {
+        preprocess: drawn + stageClock.preprocess,
+        inference: stageClock.inference,
+        postprocess: Math.max(0, total - drawn - stageClock.preprocess - stageClock.inference),
+      };
+      const masks = detections.filter(hasMask).map((det) => det.mask.data.buffer as ArrayBuffer);
+      post({ type: 'result', id: job.id, detections, timing }, masks);
+    }
+  } catch (error) {
+    cancelledWhileRunning.delete(job.id);
+    const kind = classifyError(error, 'inference');
+    post({ type: 'error', id: job.id, kind, message: errorMessage(error) });
+    if (kind === 'out-of-memory') await rebuildAfterFailure();
+  }
+};
+
+// Jobs run one at a time; anything cancelled while still queued never reaches the model.
+// A load that arrives mid-job waits for that job, and the next job waits for the load.
+const drain = async () => {
+  if (draining) return;
+  draining = true;
+  while (queue.length > 0) {
+    while (loading) await loading;
+    const job = queue.shift();
+    if (!job) break;
+    if (!detector) {
+      job.image.close();
+      post({ type: 'error', id: job.id, kind: 'inference', message: 'Model is not loaded.' });
+      continue;
+    }
+    running = job;
+    runningDone = runJob(job);
+    try {
+      await runningDone;
+    } finally {
+      running = null;
+      runningDone = null;
+    }
+  }
+  draining = false;
+};
+
+const cancel = (id: number) => {
+  if (running?.id === id) {
+    cancelledWhileRunning.add(id);
+    return;
+  }
+  const queued = queue.find((job) => job.id === id);
+  if (!queued) return;
+  queued.image.close();
+  queue = queue.filter((job) => job !== queued);
+  post({ type: 'cancelled', id });
+};
+
+const dispose = async () => {
+  disposing = true;
+  queue.forEach((job) => {
+    job.image.close();
+    post({ type: 'cancelled', id: job.id });
+  });
+  queue = [];
+  if (running) cancelledWhileRunning.add(running.id);
+  // Freeing the session under a running job or a load in progress would break them halfway
+  while (loading) await loading;
+  await runningDone;
+  await detector?.dispose();
+  detector = null;
+  loadedModel = null;
+  loadedTask = null;
+  loadedSourceKey = null;
+  post({ type: 'disposed' });
+};
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'load': {
+      // Loads never overlap, so a superseded pipeline is always disposed before the next is created
+      const current: Promise<void> = (loading ?? Promise.resolve())
+        .then(() => load(message.id, message.model, message.task, message.source, message.runtime))
+        .finally(() => {
+          if (loading === current) loading = null;
+          drain();
+        });
+      loading = current;
+      break;
+    }
+    case 'detect':
+      queue.push({ id: message.id, image: message.image, options: message.options });
+      drain();
+      break;
+    case 'cancel':
+      cancel(message.id);
+      break;
+    case 'dispose':
+      dispose();
+      break;
+  }
+};